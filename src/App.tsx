@@ -1,14 +1,49 @@
+import { useEffect, useState } from 'react'
 import { Routes, Route, NavLink, useLocation } from 'react-router-dom'
+import { db } from './db'
 import Home from './views/Home'
 import Training from './views/Training'
 import Library from './views/Library'
 import Session from './views/Session'
 import History from './views/History'
+import Trash from './views/Trash'
 import InstallPrompt from './components/InstallPrompt'
 
 function App() {
   const location = useLocation()
   const isSessionActive = location.pathname.startsWith('/session')
+  const [dbError, setDbError] = useState<string | null>(null)
+
+  // Opening the database runs any pending migrations; a failed one is rolled back.
+  // Trash entries past the retention period are dropped once the schema is ready.
+  useEffect(() => {
+    db.getSchemaInfo()
+      .then(() => db.purgeTrash())
+      .catch(err => {
+        setDbError(err instanceof Error ? err.message : String(err))
+      })
+  }, [])
+
+  if (dbError) {
+    return (
+      <div className="page">
+        <div className="card" style={{ borderColor: 'var(--accent-danger)' }}>
+          <p style={{ fontWeight: 600, marginBottom: 'var(--spacing-sm)', color: 'var(--accent-danger)' }}>
+            No se pudo actualizar la base de datos
+          </p>
+          <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+            Tus datos no se han modificado. Cierra otras pestañas de GymTrack y vuelve a intentarlo.
+          </p>
+          <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-md)' }}>
+            {dbError}
+          </p>
+          <button className="btn-action btn-primary" onClick={() => window.location.reload()}>
+            Reintentar
+          </button>
+        </div>
+      </div>
+    )
+  }
 
   return (
     <>
@@ -18,6 +53,7 @@ function App() {
         <Route path="/library" element={<Library />} />
         <Route path="/session/:templateId" element={<Session />} />
         <Route path="/history" element={<History />} />
+        <Route path="/trash" element={<Trash />} />
       </Routes>
 
       {!isSessionActive && (
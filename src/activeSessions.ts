@@ -0,0 +1,86 @@
+import { db, type ProgressionState, type Session, type SessionTimer } from './db';
+import { progressSession } from './progression';
+import { endPause } from './sessionPauses';
+import { getWeightUnitPreference } from './units';
+
+// Unfinished sessions are managed explicitly: a new workout only starts once every open one
+// has been resumed, finished or discarded, and sessions left untouched for a long time are
+// offered to be finished at their last activity.
+
+export const STALE_SESSION_HOURS = 6;
+
+// Timer state used to live in localStorage, one key per session and, before that, a single
+// key for all of them. It is now saved with the session (Session.timer).
+const TIMER_STORAGE_PREFIX = 'gymtrack_timer_state';
+
+function timerStorageKey(sessionId: string): string {
+    return `${TIMER_STORAGE_PREFIX}_${sessionId}`;
+}
+
+function clearTimerState(sessionId: string) {
+    localStorage.removeItem(timerStorageKey(sessionId));
+}
+
+// Timer state a session left in localStorage, picked up once and removed
+export function takeLegacyTimerState(sessionId: string): SessionTimer | undefined {
+    try {
+        const parse = (stored: string | null) => stored === null
+            ? undefined
+            : JSON.parse(stored) as SessionTimer & { sessionId: string };
+        const stored = localStorage.getItem(timerStorageKey(sessionId));
+        clearTimerState(sessionId);
+        const own = parse(stored);
+        const global = parse(localStorage.getItem(TIMER_STORAGE_PREFIX));
+        // The global key may hold another session's timer: that one stays for its own session
+        if (global?.sessionId === sessionId) localStorage.removeItem(TIMER_STORAGE_PREFIX);
+        const saved = own ?? global;
+        if (!saved) return undefined;
+        const { sessionId: savedFor, ...timer } = saved;
+        return savedFor === sessionId ? timer : undefined;
+    } catch (e) {
+        console.log('Failed to restore timer state:', e);
+        return undefined;
+    }
+}
+
+// Last moment anything happened in the session: a logged set or a pause starting or ending
+export function lastActivity(session: Session): number {
+    const times = [
+        session.startTime,
+        ...session.exercises.flatMap(ex => ex.sets.map(set => set.endTime)),
+        ...(session.pauses ?? []).flatMap(pause => pause.end !== undefined ? [pause.start, pause.end] : [pause.start]),
+    ];
+    return Math.max(...times);
+}
+
+export function isStale(session: Session, now = Date.now()): boolean {
+    return now - lastActivity(session) > STALE_SESSION_HOURS * 3600000;
+}
+
+export function loggedSetCount(session: Session): number {
+    return session.exercises.reduce((sum, ex) => sum + ex.sets.length, 0);
+}
+
+// Route that resumes this exact session
+export function sessionPath(session: Pick<Session, 'id' | 'templateId'>): string {
+    return `/session/${session.templateId}?id=${session.id}`;
+}
+
+// Completes the session and updates the progression targets from it. Stale sessions end at
+// their last activity instead of now, so the hours they sat open do not count.
+export async function finishSession(session: Session, endTime = Date.now()): Promise<{ completed: Session; progressed: ProgressionState[] }> {
+    const completed: Session = { ...endPause(session, endTime), completed: true, endTime, timer: undefined };
+    await db.saveSession(completed);
+    const [exercises, targets] = await Promise.all([db.getAllExercises(), db.getAllProgression()]);
+    const progressed = progressSession(completed, exercises, targets, getWeightUnitPreference());
+    await db.saveProgression(progressed);
+    clearTimerState(session.id);
+    return { completed, progressed };
+}
+
+// Moves the session to the trash, from where it can still be restored
+export async function discardSession(session: Session): Promise<string> {
+    const trashId = await db.deleteSession(session.id);
+    clearTimerState(session.id);
+    return trashId;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { validateBackup } from './backup';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+
+function backup(data: Record<string, unknown>) {
+    return {
+        format: 'gymtrack-backup',
+        formatVersion: 2,
+        appVersion: '1.0.0',
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        checksum: '',
+        data: {
+            muscleGroups: [{ id: 'legs', name: 'Pierna' }],
+            exercises: [{ id: 'squat', name: 'Sentadilla', muscleGroupIds: ['legs'] }],
+            templates: [],
+            sessions: [],
+            progression: [],
+            trash: [],
+            ...data,
+        },
+    };
+}
+
+describe('validating a backup', () => {
+    it('rejects a template without its exercises', async () => {
+        const result = await validateBackup(backup({ templates: [{ id: 'day-a', name: 'Día A' }] }));
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.errors).toContainEqual(expect.stringContaining('templates[0].exercises'));
+    });
+
+    it('rejects an exercise without muscle groups', async () => {
+        const result = await validateBackup(backup({ exercises: [{ id: 'squat', name: 'Sentadilla' }] }));
+
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.errors).toContainEqual(expect.stringContaining('exercises[0].muscleGroupIds'));
+    });
+
+    it('gets to the checksum with a template a cascade left empty', async () => {
+        const result = await validateBackup(backup({ templates: [{ id: 'day-a', name: 'Día A', exercises: [] }] }));
+
+        expect(!result.ok && result.errors).toEqual([expect.stringContaining('suma de verificación')]);
+    });
+});
@@ -0,0 +1,208 @@
+import { db, type BackupData, type RestoreMode, type TrashEntry } from './db';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { recomputeProgression } from './progressionHistory';
+import { validateLibraryExport } from './libraryImport';
+
+export const APP_VERSION = '1.0.0';
+
+const BACKUP_FORMAT = 'gymtrack-backup';
+// v2 added progression targets and the trash
+const BACKUP_FORMAT_VERSION = 2;
+
+export interface BackupEnvelope {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    appVersion: string;
+    schemaVersion: number;
+    createdAt: string;
+    // SHA-256 (hex) of JSON.stringify(data)
+    checksum: string;
+    data: BackupData;
+}
+
+export interface BackupSummary {
+    createdAt: string;
+    appVersion: string;
+    schemaVersion: number;
+    counts: Record<keyof BackupData, number>;
+}
+
+export type BackupValidation =
+    | { ok: true; backup: BackupEnvelope; summary: BackupSummary }
+    | { ok: false; errors: string[] };
+
+async function computeChecksum(data: BackupData): Promise<string> {
+    const bytes = new TextEncoder().encode(JSON.stringify(data));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createBackup(): Promise<BackupEnvelope> {
+    const data = await db.exportAll();
+    return {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        appVersion: APP_VERSION,
+        schemaVersion: LATEST_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        checksum: await computeChecksum(data),
+        data,
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+const SET_NUMBER_FIELDS = ['setNumber', 'weight', 'reps', 'rpe', 'tutMs', 'restMs', 'startTime', 'endTime'] as const;
+const PROGRESSION_NUMBER_FIELDS = ['weight', 'reps', 'failures', 'updatedAt'] as const;
+const TRASH_KINDS: TrashEntry['kind'][] = ['muscleGroup', 'exercise', 'template', 'session'];
+
+// Every session exercise and set, since each set becomes an exerciseSets row indexed by
+// exercise and time
+function validateSessionSets(session: Record<string, unknown>, path: string, errors: string[]) {
+    if (!Array.isArray(session.exercises)) return;
+    session.exercises.forEach((exercise: unknown, j) => {
+        if (!isRecord(exercise) || typeof exercise.exerciseId !== 'string') {
+            errors.push(`${path}.exercises[${j}]: falta el ejercicio`);
+            return;
+        }
+        if (!Array.isArray(exercise.sets)) {
+            errors.push(`${path}.exercises[${j}]: faltan las series`);
+            return;
+        }
+        exercise.sets.forEach((set: unknown, k) => {
+            if (!isRecord(set)) {
+                errors.push(`${path}.exercises[${j}].sets[${k}]: no es una serie`);
+                return;
+            }
+            const invalid: string[] = SET_NUMBER_FIELDS.filter(field => !isNumber(set[field]));
+            if (typeof set.technicalFailure !== 'boolean') invalid.push('technicalFailure');
+            if (invalid.length > 0) {
+                errors.push(`${path}.exercises[${j}].sets[${k}]: ${invalid.join(', ')} inválido`);
+            }
+        });
+    });
+}
+
+// Structural checks only: enough to guarantee every record can be written and read back.
+// Nothing is written until the whole file passes.
+export async function validateBackup(raw: unknown): Promise<BackupValidation> {
+    if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+        return { ok: false, errors: ['El archivo no es una copia de seguridad de GymTrack'] };
+    }
+
+    const errors: string[] = [];
+
+    if (typeof raw.formatVersion !== 'number' || raw.formatVersion > BACKUP_FORMAT_VERSION) {
+        errors.push(`Formato de copia no soportado (v${String(raw.formatVersion)})`);
+    }
+    if (typeof raw.schemaVersion !== 'number' || raw.schemaVersion > LATEST_SCHEMA_VERSION) {
+        errors.push(`La copia es de una versión más reciente de la app (esquema v${String(raw.schemaVersion)}); actualiza GymTrack primero`);
+    }
+    if (typeof raw.checksum !== 'string') {
+        errors.push('Falta la suma de verificación');
+    }
+
+    const data = raw.data;
+    if (!isRecord(data)) {
+        return { ok: false, errors: [...errors, 'Faltan los datos de la copia'] };
+    }
+
+    // Files from format v1 have neither progression nor trash
+    const stores: (keyof BackupData)[] = raw.formatVersion === 1
+        ? ['muscleGroups', 'exercises', 'templates', 'sessions']
+        : ['muscleGroups', 'exercises', 'templates', 'sessions', 'trash'];
+    for (const store of stores) {
+        const records = data[store];
+        if (!Array.isArray(records)) {
+            errors.push(`"${store}" no es una lista`);
+            continue;
+        }
+        records.forEach((record, i) => {
+            if (!isRecord(record) || typeof record.id !== 'string' || !record.id) {
+                errors.push(`${store}[${i}]: falta el id`);
+            }
+        });
+    }
+
+    // Groups, exercises and templates get the same checks as a library import, against
+    // nothing but the file itself
+    if (errors.length === 0) {
+        const library = validateLibraryExport(data, { muscleGroups: [], exercises: [], templates: [] }, { allowEmptyTemplates: true });
+        if (!library.ok) errors.push(...library.issues.map(issue => `${issue.path}: ${issue.message}`));
+    }
+
+    if (Array.isArray(data.sessions)) {
+        data.sessions.forEach((session, i) => {
+            if (!isRecord(session)) return;
+            if (typeof session.startTime !== 'number') errors.push(`sessions[${i}]: startTime inválido`);
+            if (!Array.isArray(session.exercises)) errors.push(`sessions[${i}]: faltan los ejercicios`);
+            validateSessionSets(session, `sessions[${i}]`, errors);
+        });
+    }
+
+    if (Array.isArray(data.progression)) {
+        data.progression.forEach((state, i) => {
+            if (!isRecord(state) || typeof state.exerciseId !== 'string' || !state.exerciseId) {
+                errors.push(`progression[${i}]: falta el ejercicio`);
+                return;
+            }
+            const invalid = PROGRESSION_NUMBER_FIELDS.filter(field => !isNumber(state[field]));
+            if (invalid.length > 0) errors.push(`progression[${i}]: ${invalid.join(', ')} inválido`);
+        });
+    } else if (raw.formatVersion !== 1) {
+        errors.push('"progression" no es una lista');
+    }
+
+    if (Array.isArray(data.trash)) {
+        data.trash.forEach((entry, i) => {
+            if (!isRecord(entry)) return;
+            if (!TRASH_KINDS.includes(entry.kind as TrashEntry['kind'])) errors.push(`trash[${i}]: tipo desconocido`);
+            if (!isNumber(entry.deletedAt)) errors.push(`trash[${i}]: deletedAt inválido`);
+            if (!isRecord(entry.record) || !Array.isArray(entry.related)) {
+                errors.push(`trash[${i}]: faltan los datos borrados`);
+                return;
+            }
+            // Restoring a session writes its sets too
+            if (entry.kind === 'session') validateSessionSets(entry.record, `trash[${i}].record`, errors);
+        });
+    }
+
+    if (errors.length > 0) return { ok: false, errors };
+
+    const backup = raw as unknown as BackupEnvelope;
+    if (await computeChecksum(backup.data) !== backup.checksum) {
+        return { ok: false, errors: ['La suma de verificación no coincide: el archivo está dañado o fue modificado'] };
+    }
+
+    return {
+        ok: true,
+        backup,
+        summary: {
+            createdAt: backup.createdAt,
+            appVersion: backup.appVersion,
+            schemaVersion: backup.schemaVersion,
+            counts: {
+                muscleGroups: backup.data.muscleGroups.length,
+                exercises: backup.data.exercises.length,
+                templates: backup.data.templates.length,
+                sessions: backup.data.sessions.length,
+                progression: backup.data.progression?.length ?? 0,
+                trash: backup.data.trash?.length ?? 0,
+            },
+        },
+    };
+}
+
+export async function restoreBackup(backup: BackupEnvelope, mode: RestoreMode): Promise<void> {
+    await db.restoreAll(backup.data, mode);
+    // A v1 file has no targets to put back after replace wiped them: work them out from its history
+    if (mode === 'replace' && !backup.data.progression) {
+        await recomputeProgression(backup.data.exercises.map(e => e.id));
+    }
+}
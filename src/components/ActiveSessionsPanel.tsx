@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import type { Session } from '../db'
+import type { UndoItem } from './UndoToast'
+import {
+    STALE_SESSION_HOURS,
+    discardSession,
+    finishSession,
+    isStale,
+    lastActivity,
+    loggedSetCount
+} from '../activeSessions'
+
+interface ActiveSessionsPanelProps {
+    sessions: Session[]
+    // Time the staleness check is made against, fixed by the parent when it loads the list
+    now: number
+    onResume: (session: Session) => void
+    onChanged: () => void
+    onDiscarded: (item: UndoItem) => void
+}
+
+const smallButton = { padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.8rem' }
+
+function formatDate(timestamp: number) {
+    return new Date(timestamp).toLocaleDateString('es-ES', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+// Every unfinished session, each with resume, finish and discard. Stale ones finish at their
+// last activity and can be closed all at once.
+export default function ActiveSessionsPanel({ sessions, now, onResume, onChanged, onDiscarded }: ActiveSessionsPanelProps) {
+    const [busy, setBusy] = useState(false)
+    const stale = sessions.filter(session => isStale(session, now))
+
+    async function run(action: () => Promise<unknown>) {
+        setBusy(true)
+        try {
+            await action()
+        } finally {
+            setBusy(false)
+            onChanged()
+        }
+    }
+
+    function finish(session: Session) {
+        return run(() => finishSession(session, isStale(session, now) ? lastActivity(session) : Date.now()))
+    }
+
+    function discard(session: Session) {
+        return run(async () => {
+            const trashId = await discardSession(session)
+            onDiscarded({ trashId, message: `Sesión "${session.templateName}" movida a la papelera` })
+        })
+    }
+
+    function finishStale() {
+        return run(async () => {
+            for (const session of stale) await finishSession(session, lastActivity(session))
+        })
+    }
+
+    if (sessions.length === 0) return null
+
+    return (
+        <div className="card" style={{ marginBottom: 'var(--spacing-lg)', borderColor: 'var(--accent-warning)' }}>
+            <p style={{ marginBottom: 'var(--spacing-sm)', color: 'var(--accent-warning)' }}>
+                ⚡ {sessions.length === 1 ? 'Sesión sin terminar' : `${sessions.length} sesiones sin terminar`}
+            </p>
+
+            {stale.length > 0 && (
+                <div style={{ marginBottom: 'var(--spacing-sm)' }}>
+                    <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-xs)' }}>
+                        {stale.length === 1 ? 'Una lleva' : `${stale.length} llevan`} más de {STALE_SESSION_HOURS} h sin actividad.
+                        Al cerrarlas terminan en su última serie registrada.
+                    </p>
+                    <button className="btn-secondary" style={smallButton} onClick={finishStale} disabled={busy}>
+                        🏁 Cerrar inactivas
+                    </button>
+                </div>
+            )}
+
+            <div className="list">
+                {sessions.map(session => (
+                    <div key={session.id} className="list-item">
+                        <div className="list-item-content">
+                            <div className="list-item-title">{session.templateName}</div>
+                            <div className="list-item-subtitle">
+                                {formatDate(session.startTime)} · {loggedSetCount(session)} series
+                                {isStale(session, now) && ' · inactiva'}
+                            </div>
+                        </div>
+                        <div className="flex gap-sm">
+                            <button className="btn-primary" style={smallButton} onClick={() => onResume(session)} disabled={busy}>
+                                Continuar
+                            </button>
+                            <button className="btn-secondary" style={smallButton} onClick={() => finish(session)} disabled={busy}>
+                                Finalizar
+                            </button>
+                            <button
+                                className="btn-secondary"
+                                style={{ ...smallButton, color: 'var(--accent-danger)' }}
+                                onClick={() => discard(session)}
+                                disabled={busy}
+                                aria-label="Descartar sesión"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,135 @@
+import { useState, type ChangeEvent } from 'react'
+import type { RestoreMode } from '../db'
+import {
+    createBackup,
+    validateBackup,
+    restoreBackup,
+    type BackupEnvelope,
+    type BackupSummary
+} from '../backup'
+import { downloadFile } from '../download'
+
+interface BackupPanelProps {
+    onRestored: () => void
+}
+
+export default function BackupPanel({ onRestored }: BackupPanelProps) {
+    const [pending, setPending] = useState<{ backup: BackupEnvelope, summary: BackupSummary } | null>(null)
+    const [errors, setErrors] = useState<string[]>([])
+    const [mode, setMode] = useState<RestoreMode>('merge')
+    const [isRestoring, setIsRestoring] = useState(false)
+    const [restored, setRestored] = useState(false)
+
+    async function downloadBackup() {
+        const backup = await createBackup()
+        downloadFile(`gymtrack-backup-${backup.createdAt.split('T')[0]}.json`, JSON.stringify(backup), 'application/json')
+    }
+
+    async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        setPending(null)
+        setErrors([])
+        setRestored(false)
+        if (!file) return
+
+        let raw: unknown
+        try {
+            raw = JSON.parse(await file.text())
+        } catch {
+            setErrors(['El archivo no es un JSON válido'])
+            return
+        }
+
+        const result = await validateBackup(raw)
+        if (result.ok) {
+            setPending({ backup: result.backup, summary: result.summary })
+        } else {
+            setErrors(result.errors)
+        }
+    }
+
+    async function handleRestore() {
+        if (!pending) return
+        setIsRestoring(true)
+        try {
+            await restoreBackup(pending.backup, mode)
+            setPending(null)
+            setRestored(true)
+            onRestored()
+        } catch (e) {
+            setErrors(['Error al restaurar: ' + (e instanceof Error ? e.message : String(e))])
+        }
+        setIsRestoring(false)
+    }
+
+    return (
+        <div>
+            <p className="text-muted" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                Copia de seguridad completa (incluye el historial):
+            </p>
+            <button
+                className="btn-action btn-primary"
+                onClick={downloadBackup}
+                style={{ marginBottom: 'var(--spacing-sm)' }}
+            >
+                💾 Descargar copia
+            </button>
+
+            <label className="btn-action btn-secondary" style={{ display: 'block', textAlign: 'center', cursor: 'pointer' }}>
+                ♻️ Restaurar copia...
+                <input type="file" accept="application/json,.json" onChange={handleFile} style={{ display: 'none' }} />
+            </label>
+
+            {errors.length > 0 && (
+                <ul style={{ color: 'var(--accent-danger)', fontSize: '0.875rem', margin: 'var(--spacing-sm) 0', paddingLeft: 'var(--spacing-lg)' }}>
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+
+            {restored && (
+                <p style={{ color: 'var(--accent-primary)', fontSize: '0.875rem', marginTop: 'var(--spacing-sm)' }}>
+                    ✅ Copia restaurada
+                </p>
+            )}
+
+            {pending && (
+                <div className="card" style={{ marginTop: 'var(--spacing-sm)', background: 'var(--bg-tertiary)' }}>
+                    <div className="summary-stat">
+                        <span className="summary-stat-label">Fecha</span>
+                        <span className="summary-stat-value">{new Date(pending.summary.createdAt).toLocaleString('es-ES')}</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="summary-stat-label">Versión</span>
+                        <span className="summary-stat-value">v{pending.summary.appVersion} · esquema {pending.summary.schemaVersion}</span>
+                    </div>
+                    <div className="summary-stat">
+                        <span className="summary-stat-label">Contenido</span>
+                        <span className="summary-stat-value">
+                            {pending.summary.counts.sessions} sesiones · {pending.summary.counts.templates} entrenos · {pending.summary.counts.exercises} ejercicios
+                        </span>
+                    </div>
+
+                    <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem', margin: 'var(--spacing-sm) 0' }}>
+                        <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                        <span>Combinar: añadir lo que falta, sin tocar lo actual</span>
+                    </label>
+                    <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                        <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                        <span style={{ color: mode === 'replace' ? 'var(--accent-danger)' : undefined }}>
+                            Reemplazar todo lo que hay en este dispositivo
+                        </span>
+                    </label>
+
+                    <button
+                        className={`btn-action ${mode === 'replace' ? 'btn-danger' : 'btn-primary'}`}
+                        onClick={handleRestore}
+                        disabled={isRestoring}
+                    >
+                        {isRestoring ? '⏳ Restaurando...' : 'Restaurar'}
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import type { DeleteStrategy } from '../db'
+import Modal from './Modal'
+
+interface DeleteUsageModalProps {
+    isOpen: boolean
+    onClose: () => void
+    itemName: string
+    // One line per place the item is referenced; empty when unused
+    usage: string[]
+    cascadeLabel: string
+    reassignOptions: { id: string, name: string }[]
+    onConfirm: (strategy: DeleteStrategy) => void
+}
+
+export default function DeleteUsageModal({
+    isOpen,
+    onClose,
+    itemName,
+    usage,
+    cascadeLabel,
+    reassignOptions,
+    onConfirm
+}: DeleteUsageModalProps) {
+    const [mode, setMode] = useState<'cascade' | 'reassign'>('cascade')
+    const [targetId, setTargetId] = useState('')
+
+    const inUse = usage.length > 0
+
+    function handleConfirm() {
+        if (!inUse) {
+            onConfirm({ mode: 'block' })
+        } else if (mode === 'reassign') {
+            if (!targetId) return
+            onConfirm({ mode: 'reassign', targetId })
+        } else {
+            onConfirm({ mode: 'cascade' })
+        }
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="🗑️ Eliminar">
+            <div>
+                <div className="card" style={{ marginBottom: 'var(--spacing-md)', background: 'var(--bg-tertiary)' }}>
+                    <p style={{ fontWeight: 600 }}>{itemName}</p>
+                </div>
+
+                {!inUse ? (
+                    <p className="text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                        No se usa en ningún sitio.
+                    </p>
+                ) : (
+                    <>
+                        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-xs)' }}>
+                            Se está usando:
+                        </p>
+                        <ul style={{ paddingLeft: 'var(--spacing-lg)', marginBottom: 'var(--spacing-md)', fontSize: '0.875rem' }}>
+                            {usage.map(line => <li key={line}>{line}</li>)}
+                        </ul>
+
+                        <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                            <input
+                                type="radio"
+                                checked={mode === 'cascade'}
+                                onChange={() => setMode('cascade')}
+                            />
+                            <span>{cascadeLabel}</span>
+                        </label>
+                        {reassignOptions.length > 0 && (
+                            <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+                                <input
+                                    type="radio"
+                                    checked={mode === 'reassign'}
+                                    onChange={() => setMode('reassign')}
+                                />
+                                <span>Reasignar a</span>
+                                <select
+                                    value={targetId}
+                                    onChange={e => { setTargetId(e.target.value); setMode('reassign') }}
+                                    style={{ flex: 1 }}
+                                >
+                                    <option value="">Elegir...</option>
+                                    {reassignOptions.map(option => (
+                                        <option key={option.id} value={option.id}>{option.name}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+                    </>
+                )}
+
+                <div className="flex gap-sm">
+                    <button className="btn-action btn-secondary" onClick={onClose}>
+                        Cancelar
+                    </button>
+                    <button
+                        className="btn-action btn-danger"
+                        onClick={handleConfirm}
+                        disabled={inUse && mode === 'reassign' && !targetId}
+                    >
+                        Eliminar
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import type { Exercise, ExercisePrescription } from '../db'
+import { DEFAULT_PRESCRIPTION } from '../freestyle'
+import Modal from './Modal'
+
+interface ExercisePickerModalProps {
+    isOpen: boolean
+    onClose: () => void
+    exercises: Exercise[]
+    onPick: (exerciseId: string, prescription: ExercisePrescription) => void
+    title?: string
+    // Picks on tap, without asking for sets, reps and rest
+    exerciseOnly?: boolean
+}
+
+export default function ExercisePickerModal({
+    isOpen,
+    onClose,
+    exercises,
+    onPick,
+    title = '➕ Añadir ejercicio',
+    exerciseOnly = false
+}: ExercisePickerModalProps) {
+    const [search, setSearch] = useState('')
+    const [selected, setSelected] = useState<Exercise | null>(null)
+    const [prescription, setPrescription] = useState<ExercisePrescription>(DEFAULT_PRESCRIPTION)
+
+    function reset() {
+        setSearch('')
+        setSelected(null)
+        setPrescription(DEFAULT_PRESCRIPTION)
+    }
+
+    function handleSelect(exercise: Exercise) {
+        if (exerciseOnly) {
+            onPick(exercise.id, prescription)
+            reset()
+        } else {
+            setSelected(exercise)
+        }
+    }
+
+    function handleClose() {
+        reset()
+        onClose()
+    }
+
+    function handleConfirm() {
+        if (!selected) return
+        onPick(selected.id, prescription)
+        reset()
+    }
+
+    function update(field: keyof ExercisePrescription, value: number) {
+        setPrescription(prev => ({ ...prev, [field]: value }))
+    }
+
+    const query = search.trim().toLowerCase()
+    const filtered = exercises.filter(ex => ex.name.toLowerCase().includes(query))
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title={title}>
+            {!selected ? (
+                <div>
+                    <input
+                        type="text"
+                        placeholder="Buscar ejercicio..."
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        style={{ marginBottom: 'var(--spacing-sm)' }}
+                    />
+                    {filtered.length === 0 ? (
+                        <p className="text-muted" style={{ fontSize: '0.875rem' }}>
+                            No hay ejercicios que coincidan. Créalos en la Biblioteca.
+                        </p>
+                    ) : (
+                        <div className="list">
+                            {filtered.map(ex => (
+                                <button
+                                    key={ex.id}
+                                    className="list-item"
+                                    style={{ padding: 'var(--spacing-sm) var(--spacing-md)', textAlign: 'left', color: 'var(--text-primary)' }}
+                                    onClick={() => handleSelect(ex)}
+                                >
+                                    {ex.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <div>
+                    <p style={{ fontWeight: 600, marginBottom: 'var(--spacing-md)' }}>{selected.name}</p>
+                    <div className="flex gap-sm" style={{ marginBottom: 'var(--spacing-md)' }}>
+                        <div style={{ flex: 1 }}>
+                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Series</label>
+                            <input
+                                type="number"
+                                value={prescription.sets}
+                                onChange={e => update('sets', parseInt(e.target.value) || 1)}
+                                min={1}
+                            />
+                        </div>
+                        <div style={{ flex: 1 }}>
+                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Reps</label>
+                            <input
+                                type="number"
+                                value={prescription.targetReps}
+                                onChange={e => update('targetReps', parseInt(e.target.value) || 1)}
+                                min={1}
+                            />
+                        </div>
+                        <div style={{ flex: 1 }}>
+                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Descanso (s)</label>
+                            <input
+                                type="number"
+                                value={prescription.restSeconds}
+                                onChange={e => update('restSeconds', parseInt(e.target.value) || 0)}
+                                min={0}
+                                step={15}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex gap-sm">
+                        <button className="btn-action btn-secondary" onClick={() => setSelected(null)}>
+                            Atrás
+                        </button>
+                        <button className="btn-action btn-primary" onClick={handleConfirm}>
+                            Añadir
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,175 @@
+import { useState, type ChangeEvent } from 'react'
+import { db, generateId, type Exercise } from '../db'
+import {
+    parseHistoryCsv,
+    findBestMatch,
+    buildImportedSessions,
+    HISTORY_SOURCE_LABELS,
+    MATCH_THRESHOLD,
+    type ParsedHistory
+} from '../historyImport'
+import Modal from './Modal'
+
+interface HistoryImportModalProps {
+    isOpen: boolean
+    onClose: () => void
+    onImported: () => void
+}
+
+// Sentinel select value: create a new library exercise with the imported name
+const CREATE = '__create__'
+
+export default function HistoryImportModal({ isOpen, onClose, onImported }: HistoryImportModalProps) {
+    const [parsed, setParsed] = useState<ParsedHistory | null>(null)
+    const [exercises, setExercises] = useState<Exercise[]>([])
+    const [mapping, setMapping] = useState<Record<string, string>>({})
+    const [error, setError] = useState('')
+    const [result, setResult] = useState<{ added: number, skipped: number } | null>(null)
+    const [isImporting, setIsImporting] = useState(false)
+
+    function reset() {
+        setParsed(null)
+        setMapping({})
+        setError('')
+        setResult(null)
+    }
+
+    function handleClose() {
+        reset()
+        onClose()
+    }
+
+    async function handleFile(e: ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        reset()
+        if (!file) return
+
+        try {
+            const history = parseHistoryCsv(await file.text())
+            if (history.workouts.length === 0) throw new Error('No se encontraron series en el archivo')
+
+            const library = await db.getAllExercises()
+            const initial: Record<string, string> = {}
+            for (const name of history.exerciseNames) {
+                const match = findBestMatch(name, library)
+                initial[name] = match && match.score >= MATCH_THRESHOLD ? match.exercise.id : CREATE
+            }
+            setExercises(library)
+            setMapping(initial)
+            setParsed(history)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err))
+        }
+    }
+
+    async function handleImport() {
+        if (!parsed) return
+        setIsImporting(true)
+        try {
+            const newExercises: Exercise[] = []
+            const exerciseIds: Record<string, string> = {}
+            for (const name of parsed.exerciseNames) {
+                if (mapping[name] === CREATE) {
+                    const exercise = { id: generateId(), name, muscleGroupIds: [] }
+                    newExercises.push(exercise)
+                    exerciseIds[name] = exercise.id
+                } else {
+                    exerciseIds[name] = mapping[name]
+                }
+            }
+
+            const sessions = buildImportedSessions(parsed, exerciseIds)
+            setResult(await db.importSessions(sessions, newExercises))
+            setParsed(null)
+            onImported()
+        } catch (err) {
+            setError('Error al importar: ' + (err instanceof Error ? err.message : String(err)))
+        }
+        setIsImporting(false)
+    }
+
+    const totalSets = parsed?.workouts.reduce(
+        (sum, w) => sum + w.exercises.reduce((s, ex) => s + ex.sets.length, 0), 0
+    ) ?? 0
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="📥 Importar historial">
+            <div>
+                {!parsed && (
+                    <>
+                        <p className="text-muted" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                            Exportación CSV de Strong, Hevy o FitNotes. Volver a importar el mismo archivo no duplica sesiones.
+                        </p>
+                        <label className="btn-action btn-secondary" style={{ display: 'block', textAlign: 'center', cursor: 'pointer' }}>
+                            📄 Elegir archivo CSV...
+                            <input type="file" accept=".csv,text/csv" onChange={handleFile} style={{ display: 'none' }} />
+                        </label>
+                    </>
+                )}
+
+                {error && (
+                    <p style={{ color: 'var(--accent-danger)', fontSize: '0.875rem', marginTop: 'var(--spacing-sm)' }}>
+                        {error}
+                    </p>
+                )}
+
+                {result && (
+                    <p style={{ color: 'var(--accent-primary)', fontSize: '0.875rem', marginTop: 'var(--spacing-sm)' }}>
+                        ✅ {result.added} sesiones importadas
+                        {result.skipped > 0 && ` · ${result.skipped} ya existían`}
+                    </p>
+                )}
+
+                {parsed && (
+                    <>
+                        <div className="card" style={{ marginBottom: 'var(--spacing-md)', background: 'var(--bg-tertiary)' }}>
+                            <div className="summary-stat">
+                                <span className="summary-stat-label">Origen</span>
+                                <span className="summary-stat-value">{HISTORY_SOURCE_LABELS[parsed.source]}</span>
+                            </div>
+                            <div className="summary-stat">
+                                <span className="summary-stat-label">Sesiones</span>
+                                <span className="summary-stat-value">{parsed.workouts.length}</span>
+                            </div>
+                            <div className="summary-stat">
+                                <span className="summary-stat-label">Series</span>
+                                <span className="summary-stat-value">{totalSets}</span>
+                            </div>
+                        </div>
+
+                        <p className="text-secondary" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
+                            Ejercicios:
+                        </p>
+                        <div className="list" style={{ marginBottom: 'var(--spacing-md)' }}>
+                            {parsed.exerciseNames.map(name => (
+                                <div key={name} className="list-item" style={{ padding: 'var(--spacing-sm)', flexDirection: 'column', alignItems: 'stretch', gap: 'var(--spacing-xs)' }}>
+                                    <span style={{ fontSize: '0.875rem' }}>{name}</span>
+                                    <select
+                                        value={mapping[name]}
+                                        onChange={e => setMapping(prev => ({ ...prev, [name]: e.target.value }))}
+                                        style={{ padding: 'var(--spacing-xs)', fontSize: '0.8rem' }}
+                                    >
+                                        <option value={CREATE}>➕ Crear "{name}"</option>
+                                        {exercises.map(ex => (
+                                            <option key={ex.id} value={ex.id}>{ex.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex gap-sm">
+                            <button className="btn-action btn-secondary" onClick={reset}>
+                                Cancelar
+                            </button>
+                            <button className="btn-action btn-primary" onClick={handleImport} disabled={isImporting}>
+                                {isImporting ? '⏳ Importando...' : '✅ Importar'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </Modal>
+    )
+}
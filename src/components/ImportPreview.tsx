@@ -0,0 +1,102 @@
+import {
+    defaultResolution,
+    emptiedTemplates,
+    type ImportItem,
+    type ImportItemKind,
+    type ImportResolution,
+    type ImportStatus
+} from '../libraryImport'
+
+interface ImportPreviewProps {
+    items: ImportItem[]
+    resolutions: Record<string, ImportResolution>
+    onChange: (key: string, resolution: ImportResolution) => void
+}
+
+const KIND_LABELS: Record<ImportItemKind, string> = {
+    muscleGroup: 'Grupos',
+    exercise: 'Ejercicios',
+    template: 'Entrenos'
+}
+
+const STATUS_LABELS: Record<ImportStatus, { label: string, color: string }> = {
+    new: { label: 'Nuevo', color: 'var(--accent-primary)' },
+    identical: { label: 'Igual', color: 'var(--text-muted)' },
+    changed: { label: 'Modificado', color: 'var(--accent-warning)' },
+    conflict: { label: 'Conflicto', color: 'var(--accent-danger)' }
+}
+
+function resolutionOptions(status: ImportStatus): { value: ImportResolution, label: string }[] {
+    if (status === 'new') {
+        return [
+            { value: 'incoming', label: 'Importar' },
+            { value: 'keep', label: 'Omitir' }
+        ]
+    }
+    return [
+        { value: 'keep', label: status === 'conflict' ? 'Usar el local' : 'Mantener local' },
+        { value: 'incoming', label: status === 'conflict' ? 'Importar también' : 'Usar importado' },
+        { value: 'copy', label: 'Importar como copia' }
+    ]
+}
+
+export default function ImportPreview({ items, resolutions, onChange }: ImportPreviewProps) {
+    const counts = items.reduce((acc, item) => {
+        acc[item.status] = (acc[item.status] || 0) + 1
+        return acc
+    }, {} as Partial<Record<ImportStatus, number>>)
+    const emptied = emptiedTemplates(items, resolutions)
+
+    return (
+        <div>
+            <div className="flex gap-sm" style={{ flexWrap: 'wrap', marginBottom: 'var(--spacing-sm)', fontSize: '0.8rem' }}>
+                {(Object.keys(STATUS_LABELS) as ImportStatus[]).map(status => (
+                    <span key={status} style={{ color: STATUS_LABELS[status].color }}>
+                        {STATUS_LABELS[status].label}: {counts[status] || 0}
+                    </span>
+                ))}
+            </div>
+
+            {(Object.keys(KIND_LABELS) as ImportItemKind[]).map(kind => {
+                const kindItems = items.filter(item => item.kind === kind)
+                if (kindItems.length === 0) return null
+                return (
+                    <div key={kind} style={{ marginBottom: 'var(--spacing-sm)' }}>
+                        <p className="text-secondary" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-xs)' }}>
+                            {KIND_LABELS[kind]}
+                        </p>
+                        <div className="list">
+                            {kindItems.map(item => (
+                                <div key={item.key} className="list-item" style={{ padding: 'var(--spacing-sm)' }}>
+                                    <div className="list-item-content">
+                                        <div className="list-item-title" style={{ fontSize: '0.875rem' }}>{item.incoming.name}</div>
+                                        <div className="list-item-subtitle" style={{ color: STATUS_LABELS[item.status].color }}>
+                                            {STATUS_LABELS[item.status].label}
+                                            {item.status === 'conflict' && item.local && ` con "${item.local.name}"`}
+                                        </div>
+                                        {emptied.includes(item.key) && (
+                                            <div className="list-item-subtitle" style={{ color: 'var(--accent-danger)' }}>
+                                                No se importará: omites todos sus ejercicios
+                                            </div>
+                                        )}
+                                    </div>
+                                    {item.status !== 'identical' && (
+                                        <select
+                                            value={resolutions[item.key] ?? defaultResolution(item.status)}
+                                            onChange={e => onChange(item.key, e.target.value as ImportResolution)}
+                                            style={{ width: 'auto', padding: 'var(--spacing-xs)', fontSize: '0.8rem' }}
+                                        >
+                                            {resolutionOptions(item.status).map(option => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
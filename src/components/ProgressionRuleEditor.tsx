@@ -0,0 +1,73 @@
+import type { ProgressionRule } from '../db'
+import { DEFAULT_PROGRESSION_RULES, PROGRESSION_RULE_LABELS, type ProgressionRuleType } from '../progression'
+
+interface ProgressionRuleEditorProps {
+    value: ProgressionRule | undefined
+    onChange: (rule: ProgressionRule | undefined) => void
+}
+
+const labelStyle = { fontSize: '0.75rem' }
+
+export default function ProgressionRuleEditor({ value, onChange }: ProgressionRuleEditorProps) {
+    function changeType(type: ProgressionRuleType | '') {
+        onChange(type ? { ...DEFAULT_PROGRESSION_RULES[type], ...deloadOf(value) } : undefined)
+    }
+
+    function update(changes: Partial<Record<string, number>>) {
+        if (value) onChange({ ...value, ...changes } as ProgressionRule)
+    }
+
+    function numberField(label: string, field: string, current: number, step: number, min = 0) {
+        return (
+            <div style={{ flex: 1 }}>
+                <label className="text-muted" style={labelStyle}>{label}</label>
+                <input
+                    type="number"
+                    value={current}
+                    onChange={e => update({ [field]: parseFloat(e.target.value) || 0 })}
+                    min={min}
+                    step={step}
+                />
+            </div>
+        )
+    }
+
+    return (
+        <div style={{ marginBottom: 'var(--spacing-md)' }}>
+            <select
+                value={value?.type ?? ''}
+                onChange={e => changeType(e.target.value as ProgressionRuleType | '')}
+                style={{ marginBottom: value ? 'var(--spacing-sm)' : 0 }}
+            >
+                <option value="">Sin progresión automática</option>
+                {(Object.keys(PROGRESSION_RULE_LABELS) as ProgressionRuleType[]).map(type => (
+                    <option key={type} value={type}>{PROGRESSION_RULE_LABELS[type]}</option>
+                ))}
+            </select>
+
+            {value && (
+                <>
+                    <div className="flex gap-sm" style={{ marginBottom: 'var(--spacing-sm)' }}>
+                        {value.type === 'doubleProgression' && (
+                            <>
+                                {numberField('Reps mín.', 'minReps', value.minReps, 1, 1)}
+                                {numberField('Reps máx.', 'maxReps', value.maxReps, 1, 1)}
+                            </>
+                        )}
+                        {value.type === 'rpeTarget' && numberField('RPE objetivo', 'targetRpe', value.targetRpe, 0.5, 5)}
+                        {numberField('Incremento', 'increment', value.increment, 0.5)}
+                    </div>
+                    <div className="flex gap-sm">
+                        {numberField('Descarga tras fallos', 'deloadAfterFailures', value.deloadAfterFailures, 1, 1)}
+                        {numberField('Descarga (%)', 'deloadPercent', value.deloadPercent, 5)}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+// Deload settings survive switching between rule types
+function deloadOf(rule: ProgressionRule | undefined) {
+    return rule ? { deloadAfterFailures: rule.deloadAfterFailures, deloadPercent: rule.deloadPercent } : {}
+}
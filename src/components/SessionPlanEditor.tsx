@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import type { Exercise, ExercisePrescription, Session } from '../db'
+import {
+    addExercise,
+    changeSetCount,
+    isExerciseComplete,
+    moveExercise,
+    prescriptionOf,
+    removeExercise,
+    skipExercise,
+    swapExercise
+} from '../sessionFlow'
+import Modal from './Modal'
+import ExercisePickerModal from './ExercisePickerModal'
+
+interface SessionPlanEditorProps {
+    isOpen: boolean
+    onClose: () => void
+    session: Session
+    exercises: Exercise[]
+    currentExerciseIndex: number
+    onChange: (session: Session) => void
+}
+
+type Mode = { type: 'list' } | { type: 'add' } | { type: 'swap', index: number }
+
+const smallButton = { padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.8rem' }
+
+export default function SessionPlanEditor({
+    isOpen,
+    onClose,
+    session,
+    exercises,
+    currentExerciseIndex,
+    onChange
+}: SessionPlanEditorProps) {
+    const [mode, setMode] = useState<Mode>({ type: 'list' })
+
+    function getExerciseName(exerciseId: string) {
+        return exercises.find(e => e.id === exerciseId)?.name || exerciseId
+    }
+
+    function handleClose() {
+        setMode({ type: 'list' })
+        onClose()
+    }
+
+    function handlePick(exerciseId: string, prescription: ExercisePrescription) {
+        if (mode.type === 'swap') {
+            onChange(swapExercise(session, mode.index, exerciseId))
+        } else {
+            onChange(addExercise(session, exerciseId, prescription))
+        }
+        setMode({ type: 'list' })
+    }
+
+    const last = session.exercises.length - 1
+
+    return (
+        <>
+            <Modal isOpen={isOpen && mode.type === 'list'} onClose={handleClose} title="✏️ Editar sesión">
+                <div>
+                    <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-sm)' }}>
+                        Los cambios solo afectan a esta sesión, no al entrenamiento guardado.
+                    </p>
+                    <div className="list" style={{ marginBottom: 'var(--spacing-md)' }}>
+                        {session.exercises.map((ex, i) => {
+                            const complete = isExerciseComplete(ex)
+                            return (
+                                <div
+                                    key={i}
+                                    className="card"
+                                    style={{
+                                        padding: 'var(--spacing-sm)',
+                                        background: 'var(--bg-tertiary)',
+                                        borderColor: i === currentExerciseIndex ? 'var(--accent-primary)' : undefined
+                                    }}
+                                >
+                                    <div className="flex justify-between items-center" style={{ marginBottom: 'var(--spacing-xs)' }}>
+                                        <div>
+                                            <span style={{ fontWeight: 600 }}>{i + 1}. {getExerciseName(ex.exerciseId)}</span>
+                                            {ex.swappedFromExerciseId && (
+                                                <p className="text-muted" style={{ fontSize: '0.7rem' }}>
+                                                    en lugar de {getExerciseName(ex.swappedFromExerciseId)}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <span style={{ fontSize: '0.8rem', color: complete ? 'var(--accent-primary)' : 'var(--text-secondary)' }}>
+                                            {complete ? '✅ ' : ''}{ex.sets.length}/{prescriptionOf(ex).sets}
+                                        </span>
+                                    </div>
+                                    <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                                        <button className="btn-secondary" style={smallButton} disabled={i === 0} onClick={() => onChange(moveExercise(session, i, i - 1))}>↑</button>
+                                        <button className="btn-secondary" style={smallButton} disabled={i === last} onClick={() => onChange(moveExercise(session, i, i + 1))}>↓</button>
+                                        <button className="btn-secondary" style={smallButton} onClick={() => onChange(changeSetCount(session, i, -1))}>− serie</button>
+                                        <button className="btn-secondary" style={smallButton} onClick={() => onChange(changeSetCount(session, i, 1))}>+ serie</button>
+                                        {!complete && i !== last && (
+                                            <button className="btn-secondary" style={smallButton} onClick={() => onChange(skipExercise(session, i))}>⏭ Saltar</button>
+                                        )}
+                                        {!complete && (
+                                            <button className="btn-secondary" style={smallButton} onClick={() => setMode({ type: 'swap', index: i })}>🔁 Cambiar</button>
+                                        )}
+                                        {ex.sets.length === 0 && (
+                                            <button
+                                                className="btn-secondary"
+                                                style={{ ...smallButton, color: 'var(--accent-danger)' }}
+                                                onClick={() => onChange(removeExercise(session, i))}
+                                            >
+                                                ✕
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            )
+                        })}
+                    </div>
+                    <button className="btn-action btn-secondary" onClick={() => setMode({ type: 'add' })}>
+                        ➕ Añadir ejercicio
+                    </button>
+                </div>
+            </Modal>
+
+            <ExercisePickerModal
+                isOpen={isOpen && mode.type !== 'list'}
+                onClose={() => setMode({ type: 'list' })}
+                exercises={exercises}
+                onPick={handlePick}
+                title={mode.type === 'swap' ? '🔁 Cambiar ejercicio' : undefined}
+                exerciseOnly={mode.type === 'swap'}
+            />
+        </>
+    )
+}
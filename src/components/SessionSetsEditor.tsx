@@ -0,0 +1,209 @@
+import { useState } from 'react'
+import type { Exercise, Session, SetData } from '../db'
+import { blankSet, deleteSet, insertSet, updateSet } from '../setEditing'
+import { exerciseUnit, setUnit, unitShort } from '../units'
+import { SET_TYPES, setTypeLabel, setTypeOf, type SetType } from '../setTypes'
+import { formatSetResult, isTimedExercise, isTimedSet } from '../timedSets'
+
+interface SessionSetsEditorProps {
+    session: Session
+    exercises: Exercise[]
+    onChange: (session: Session) => void
+}
+
+interface Draft {
+    exerciseIndex: number
+    setIndex: number
+    weight: string
+    reps: string
+    // Timed sets edit these instead of reps
+    seconds: string
+    distance: string
+    rpe: string
+    technicalFailure: boolean
+    type: SetType
+    // A set being added: it only joins the session once saved, so cancelling leaves no trace
+    added?: SetData
+}
+
+const smallButton = { padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.8rem' }
+
+export default function SessionSetsEditor({ session, exercises, onChange }: SessionSetsEditorProps) {
+    const [draft, setDraft] = useState<Draft | null>(null)
+
+    function getExercise(exerciseId: string) {
+        return exercises.find(e => e.id === exerciseId)
+    }
+
+    function startEdit(exerciseIndex: number, setIndex: number, set: SetData, isNew = false) {
+        setDraft({
+            added: isNew ? set : undefined,
+            exerciseIndex,
+            setIndex,
+            weight: String(set.weight),
+            reps: String(set.reps),
+            seconds: String(Math.round((set.durationMs ?? 0) / 1000)),
+            distance: set.distanceM !== undefined ? String(set.distanceM) : '',
+            rpe: String(set.rpe),
+            technicalFailure: set.technicalFailure,
+            type: setTypeOf(set)
+        })
+    }
+
+    function saveDraft() {
+        if (!draft) return
+        const base = draft.added ? insertSet(session, draft.exerciseIndex, draft.setIndex, draft.added) : session
+        const set = base.exercises[draft.exerciseIndex].sets[draft.setIndex]
+        const distance = parseFloat(draft.distance) || 0
+        onChange(updateSet(base, draft.exerciseIndex, draft.setIndex, {
+            weight: parseFloat(draft.weight) || 0,
+            ...(isTimedSet(set)
+                ? { durationMs: (parseInt(draft.seconds) || 0) * 1000, distanceM: distance > 0 ? distance : undefined }
+                : { reps: parseInt(draft.reps) || 0 }),
+            rpe: parseFloat(draft.rpe) || 0,
+            technicalFailure: draft.technicalFailure,
+            type: draft.type
+        }))
+        setDraft(null)
+    }
+
+    function addSet(exerciseIndex: number) {
+        const sessionEx = session.exercises[exerciseIndex]
+        const previous = sessionEx.sets[sessionEx.sets.length - 1]
+        const exercise = getExercise(sessionEx.exerciseId)
+        const blank = blankSet(previous, exerciseUnit(exercise), session.startTime)
+        // The first set of a timed exercise starts as a timed set
+        const set = isTimedExercise(exercise) && !isTimedSet(blank) ? { ...blank, reps: 0, durationMs: 0 } : blank
+        startEdit(exerciseIndex, sessionEx.sets.length, set, true)
+    }
+
+    function removeSet(exerciseIndex: number, setIndex: number) {
+        setDraft(null)
+        onChange(deleteSet(session, exerciseIndex, setIndex))
+    }
+
+    return (
+        <div className="list">
+            {session.exercises.map((ex, exerciseIndex) => (
+                <div key={exerciseIndex} className="card" style={{ padding: 'var(--spacing-sm)', background: 'var(--bg-tertiary)' }}>
+                    <p style={{ fontWeight: 600, marginBottom: 'var(--spacing-xs)' }}>
+                        {getExercise(ex.exerciseId)?.name || ex.exerciseId}
+                    </p>
+
+                    {(draft?.added && draft.exerciseIndex === exerciseIndex ? [...ex.sets, draft.added] : ex.sets).map((set, setIndex) => {
+                        const isEditing = draft?.exerciseIndex === exerciseIndex && draft.setIndex === setIndex
+                        if (isEditing) {
+                            return (
+                                <div key={setIndex} style={{ marginBottom: 'var(--spacing-sm)' }}>
+                                    <div className="flex gap-sm" style={{ marginBottom: 'var(--spacing-xs)' }}>
+                                        <div style={{ flex: 1 }}>
+                                            <label className="text-muted" style={{ fontSize: '0.7rem' }}>
+                                                Peso ({unitShort(setUnit(set))})
+                                            </label>
+                                            <input
+                                                type="number"
+                                                value={draft.weight}
+                                                onChange={e => setDraft({ ...draft, weight: e.target.value })}
+                                            />
+                                        </div>
+                                        {isTimedSet(set) ? (
+                                            <>
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.7rem' }}>Tiempo (s)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={draft.seconds}
+                                                        onChange={e => setDraft({ ...draft, seconds: e.target.value })}
+                                                        min={0}
+                                                    />
+                                                </div>
+                                                {getExercise(ex.exerciseId)?.tracksDistance && (
+                                                    <div style={{ flex: 1 }}>
+                                                        <label className="text-muted" style={{ fontSize: '0.7rem' }}>Distancia (m)</label>
+                                                        <input
+                                                            type="number"
+                                                            value={draft.distance}
+                                                            onChange={e => setDraft({ ...draft, distance: e.target.value })}
+                                                            min={0}
+                                                        />
+                                                    </div>
+                                                )}
+                                            </>
+                                        ) : (
+                                            <div style={{ flex: 1 }}>
+                                                <label className="text-muted" style={{ fontSize: '0.7rem' }}>Reps</label>
+                                                <input
+                                                    type="number"
+                                                    value={draft.reps}
+                                                    onChange={e => setDraft({ ...draft, reps: e.target.value })}
+                                                    min={0}
+                                                />
+                                            </div>
+                                        )}
+                                        <div style={{ flex: 1 }}>
+                                            <label className="text-muted" style={{ fontSize: '0.7rem' }}>RPE</label>
+                                            <input
+                                                type="number"
+                                                value={draft.rpe}
+                                                onChange={e => setDraft({ ...draft, rpe: e.target.value })}
+                                                min={5}
+                                                max={10}
+                                                step={0.5}
+                                            />
+                                        </div>
+                                    </div>
+                                    <select
+                                        value={draft.type}
+                                        onChange={e => setDraft({ ...draft, type: e.target.value as SetType })}
+                                        style={{ marginBottom: 'var(--spacing-xs)' }}
+                                    >
+                                        {SET_TYPES.map(t => (
+                                            <option key={t.id} value={t.id}>{t.label}</option>
+                                        ))}
+                                    </select>
+                                    <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.8rem', marginBottom: 'var(--spacing-xs)' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={draft.technicalFailure}
+                                            onChange={e => setDraft({ ...draft, technicalFailure: e.target.checked })}
+                                        />
+                                        <span>Fallo técnico</span>
+                                    </label>
+                                    <div className="flex gap-sm">
+                                        <button className="btn-secondary" style={smallButton} onClick={() => setDraft(null)}>Cancelar</button>
+                                        <button className="btn-primary" style={smallButton} onClick={saveDraft}>Guardar</button>
+                                    </div>
+                                </div>
+                            )
+                        }
+
+                        return (
+                            <div key={setIndex} className="flex justify-between items-center" style={{ fontSize: '0.85rem', marginBottom: 'var(--spacing-xs)' }}>
+                                <span>
+                                    {set.parentSetNumber !== undefined && '↳ '}#{set.setNumber} · {formatSetResult(set)} · RPE {set.rpe}
+                                    {setTypeOf(set) !== 'working' && ` · ${setTypeLabel(setTypeOf(set))}`}
+                                    {set.technicalFailure && ' · fallo'}
+                                    {set.editedAt && <span className="text-muted" style={{ fontSize: '0.7rem' }}> (editada)</span>}
+                                </span>
+                                <div className="flex gap-sm">
+                                    <button className="btn-secondary" style={smallButton} onClick={() => startEdit(exerciseIndex, setIndex, set)}>✎</button>
+                                    <button
+                                        className="btn-secondary"
+                                        style={{ ...smallButton, color: 'var(--accent-danger)' }}
+                                        onClick={() => removeSet(exerciseIndex, setIndex)}
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            </div>
+                        )
+                    })}
+
+                    <button className="btn-secondary" style={smallButton} onClick={() => addSet(exerciseIndex)}>
+                        + Añadir serie
+                    </button>
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,166 @@
+import type { EffortTarget, LoadTarget, SetPrescription, TemplateExercise } from '../db'
+import { SET_TYPES, plannedSetType, type SetType } from '../setTypes'
+import { pyramidPattern, setPrescriptionAt, topSetBackOffPattern, type SetPattern } from '../setPrescriptions'
+import { unitShort, type WeightUnit } from '../units'
+
+interface SetPrescriptionEditorProps {
+    exercise: TemplateExercise
+    // Unit absolute loads are entered in: the exercise's own, else the global preference
+    unit: WeightUnit
+    // Timed exercises only plan set types: their target is a hold time, not reps
+    typesOnly?: boolean
+    onChange: (exercise: TemplateExercise) => void
+}
+
+const smallButton = { padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.75rem' }
+const smallInput = { fontSize: '0.75rem', padding: 'var(--spacing-xs)' }
+
+export default function SetPrescriptionEditor({ exercise, unit, typesOnly = false, onChange }: SetPrescriptionEditorProps) {
+    const perSet = !typesOnly && exercise.setPrescriptions !== undefined
+
+    // Both lists are kept as long as the planned sets; set types are dropped altogether when
+    // every set is a working set
+    function updateSetType(setIndex: number, type: SetType) {
+        const setTypes = Array.from({ length: exercise.sets }, (_, i) => i === setIndex ? type : plannedSetType(exercise.setTypes, i))
+        onChange({ ...exercise, setTypes: setTypes.every(t => t === 'working') ? undefined : setTypes })
+    }
+
+    function updateSet(setIndex: number, changes: Partial<SetPrescription>) {
+        const setPrescriptions = Array.from({ length: exercise.sets }, (_, i) => {
+            const current = setPrescriptionAt(exercise, i)
+            return i === setIndex ? { ...current, ...changes } : current
+        })
+        onChange({ ...exercise, setPrescriptions })
+    }
+
+    function applyPattern(pattern: SetPattern) {
+        onChange({ ...exercise, ...pattern })
+    }
+
+    function startPerSet() {
+        onChange({ ...exercise, setPrescriptions: Array.from({ length: exercise.sets }, (_, i) => setPrescriptionAt(exercise, i)) })
+    }
+
+    function changeEffort(setIndex: number, type: EffortTarget['type'] | '', value: number) {
+        updateSet(setIndex, { effort: type ? { type, value } : undefined })
+    }
+
+    function changeLoad(setIndex: number, type: LoadTarget['type'] | '', value: number) {
+        const load: LoadTarget | undefined = type === 'absolute'
+            ? { type, weight: value, unit }
+            : type === 'percent1RM' ? { type, percent: value } : undefined
+        updateSet(setIndex, { load })
+    }
+
+    return (
+        <div style={{ marginTop: 'var(--spacing-sm)' }}>
+            <div className="flex justify-between items-center" style={{ marginBottom: 'var(--spacing-xs)' }}>
+                <label className="text-muted" style={{ fontSize: '0.75rem' }}>Series</label>
+                {!typesOnly && (
+                    <div className="flex gap-sm" style={{ flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                        <button className="btn-secondary" style={smallButton} onClick={() => applyPattern(pyramidPattern(exercise.sets))}>
+                            Pirámide
+                        </button>
+                        <button className="btn-secondary" style={smallButton} onClick={() => applyPattern(topSetBackOffPattern(exercise.sets))}>
+                            Top set + back-off
+                        </button>
+                        {perSet ? (
+                            <button className="btn-secondary" style={smallButton} onClick={() => onChange({ ...exercise, setPrescriptions: undefined })}>
+                                Todas iguales
+                            </button>
+                        ) : (
+                            <button className="btn-secondary" style={smallButton} onClick={startPerSet}>
+                                Por serie
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="list">
+                {Array.from({ length: exercise.sets }, (_, i) => {
+                    const set = setPrescriptionAt(exercise, i)
+                    return (
+                        <div key={i}>
+                            <div className="flex gap-sm items-center">
+                                <span className="text-muted" style={{ fontSize: '0.75rem', minWidth: '1.5rem' }}>{i + 1}.</span>
+                                <select
+                                    value={plannedSetType(exercise.setTypes, i)}
+                                    onChange={e => updateSetType(i, e.target.value as SetType)}
+                                    style={{ ...smallInput, flex: 1 }}
+                                >
+                                    {SET_TYPES.map(t => (
+                                        <option key={t.id} value={t.id}>{t.label}</option>
+                                    ))}
+                                </select>
+                                {perSet && (
+                                    <>
+                                        <input
+                                            type="number"
+                                            value={set.minReps}
+                                            onChange={e => updateSet(i, { minReps: parseInt(e.target.value) || 1 })}
+                                            min={1}
+                                            style={{ ...smallInput, width: '3.5rem' }}
+                                            aria-label="Reps mínimas"
+                                        />
+                                        <span className="text-muted">–</span>
+                                        <input
+                                            type="number"
+                                            value={set.maxReps}
+                                            onChange={e => updateSet(i, { maxReps: parseInt(e.target.value) || 1 })}
+                                            min={set.minReps}
+                                            style={{ ...smallInput, width: '3.5rem' }}
+                                            aria-label="Reps máximas"
+                                        />
+                                    </>
+                                )}
+                            </div>
+                            {perSet && (
+                                <div className="flex gap-sm items-center" style={{ marginTop: '4px', paddingLeft: '2rem' }}>
+                                    <select
+                                        value={set.effort?.type ?? ''}
+                                        onChange={e => changeEffort(i, e.target.value as EffortTarget['type'] | '', set.effort?.value ?? (e.target.value === 'rir' ? 2 : 8))}
+                                        style={{ ...smallInput, flex: 1 }}
+                                    >
+                                        <option value="">Sin esfuerzo</option>
+                                        <option value="rpe">RPE</option>
+                                        <option value="rir">RIR</option>
+                                    </select>
+                                    {set.effort && (
+                                        <input
+                                            type="number"
+                                            value={set.effort.value}
+                                            onChange={e => changeEffort(i, set.effort!.type, parseFloat(e.target.value) || 0)}
+                                            min={0}
+                                            max={10}
+                                            step={0.5}
+                                            style={{ ...smallInput, width: '3.5rem' }}
+                                        />
+                                    )}
+                                    <select
+                                        value={set.load?.type ?? ''}
+                                        onChange={e => changeLoad(i, e.target.value as LoadTarget['type'] | '', 0)}
+                                        style={{ ...smallInput, flex: 1 }}
+                                    >
+                                        <option value="">Sin carga</option>
+                                        <option value="absolute">{unit === 'plate' ? 'Placa' : unitShort(unit)}</option>
+                                        <option value="percent1RM">% 1RM</option>
+                                    </select>
+                                    {set.load && (
+                                        <input
+                                            type="number"
+                                            value={set.load.type === 'absolute' ? set.load.weight : set.load.percent}
+                                            onChange={e => changeLoad(i, set.load!.type, parseFloat(e.target.value) || 0)}
+                                            min={0}
+                                            style={{ ...smallInput, width: '4rem' }}
+                                        />
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,41 @@
+import { SET_TYPES, type SetType } from '../setTypes'
+
+interface SetTypeFilterProps {
+    value: SetType[]
+    onChange: (types: SetType[]) => void
+}
+
+// Toggles which set types count towards totals and go into exports
+export default function SetTypeFilter({ value, onChange }: SetTypeFilterProps) {
+    function toggle(type: SetType) {
+        onChange(value.includes(type) ? value.filter(t => t !== type) : [...value, type])
+    }
+
+    return (
+        <div style={{ marginBottom: 'var(--spacing-md)' }}>
+            <p className="text-secondary" style={{ marginBottom: 'var(--spacing-xs)', fontSize: '0.8rem' }}>
+                Incluir series:
+            </p>
+            <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+                {SET_TYPES.map(type => {
+                    const selected = value.includes(type.id)
+                    return (
+                        <button
+                            key={type.id}
+                            className="btn-secondary"
+                            style={{
+                                padding: 'var(--spacing-xs) var(--spacing-sm)',
+                                fontSize: '0.75rem',
+                                background: selected ? 'var(--accent-primary)' : 'var(--bg-tertiary)',
+                                color: selected ? 'var(--bg-primary)' : 'var(--text-primary)'
+                            }}
+                            onClick={() => toggle(type.id)}
+                        >
+                            {type.label}
+                        </button>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,37 @@
+import { useState } from 'react'
+import type { Tempo } from '../db'
+import { formatTempo, parseTempo } from '../tempo'
+
+interface TempoInputProps {
+    value: Tempo | undefined
+    onChange: (tempo: Tempo | undefined) => void
+}
+
+// Typed as text so "3-1-2-0" can be entered in one go; the tempo only changes once the text
+// parses, and clearing it removes the prescription
+export default function TempoInput({ value, onChange }: TempoInputProps) {
+    const [text, setText] = useState(value ? formatTempo(value) : '')
+    const invalid = text.trim() !== '' && parseTempo(text) === null
+
+    function change(next: string) {
+        setText(next)
+        if (next.trim() === '') {
+            onChange(undefined)
+            return
+        }
+        const tempo = parseTempo(next)
+        if (tempo) onChange(tempo)
+    }
+
+    return (
+        <input
+            type="text"
+            inputMode="numeric"
+            value={text}
+            onChange={e => change(e.target.value)}
+            placeholder="3-1-2-0"
+            aria-label="Tempo: bajada, pausa, subida, arriba"
+            style={invalid ? { borderColor: 'var(--accent-danger)' } : undefined}
+        />
+    )
+}
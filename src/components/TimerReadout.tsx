@@ -0,0 +1,17 @@
+import type { ReactNode } from 'react'
+import type { SessionEngine, Timer } from '../sessionEngine'
+import { useClock } from '../hooks/useSessionEngine'
+
+interface TimerReadoutProps<T> {
+    engine: SessionEngine
+    // Must return a primitive: the readout renders again only when it changes
+    select: (timer: Timer, now: number) => T
+    children: (value: T) => ReactNode
+}
+
+// The part of the session screen that follows the clock, so the rest of the page does not
+// render on every tick
+export default function TimerReadout<T>({ engine, select, children }: TimerReadoutProps<T>) {
+    const value = useClock(engine, select)
+    return <>{children(value)}</>
+}
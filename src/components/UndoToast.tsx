@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import { db } from '../db'
+import { recomputeProgression, trashedExerciseIds } from '../progressionHistory'
+
+const UNDO_TIMEOUT_MS = 6000
+
+export interface UndoItem {
+    trashId: string
+    message: string
+}
+
+interface UndoToastProps {
+    item: UndoItem | null
+    onClose: () => void
+    onRestored: () => void
+}
+
+// Shown right after a delete; the record is already in the trash, undo just restores it
+export default function UndoToast({ item, onClose, onRestored }: UndoToastProps) {
+    const [isRestoring, setIsRestoring] = useState(false)
+    // Why the undo of a given entry failed, shown until the toast times out
+    const [failure, setFailure] = useState<{ trashId: string, message: string } | null>(null)
+
+    useEffect(() => {
+        if (!item) return
+        const timeout = setTimeout(onClose, UNDO_TIMEOUT_MS)
+        return () => clearTimeout(timeout)
+    }, [item, onClose])
+
+    async function handleUndo() {
+        if (!item) return
+        setIsRestoring(true)
+        try {
+            const entry = await db.restoreFromTrash(item.trashId)
+            await recomputeProgression(trashedExerciseIds(entry))
+            onRestored()
+            onClose()
+        } catch (e) {
+            setFailure({ trashId: item.trashId, message: 'No se pudo deshacer: ' + (e instanceof Error ? e.message : String(e)) })
+        } finally {
+            setIsRestoring(false)
+        }
+    }
+
+    if (!item) return null
+    const error = failure?.trashId === item.trashId ? failure.message : null
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: 'calc(70px + var(--spacing-md))',
+            left: 'var(--spacing-md)',
+            right: 'var(--spacing-md)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 'var(--spacing-sm)',
+            padding: 'var(--spacing-sm) var(--spacing-md)',
+            background: 'var(--bg-elevated)',
+            border: '1px solid var(--bg-tertiary)',
+            borderRadius: 'var(--radius-md)',
+            zIndex: 1001
+        }}>
+            <span style={{ fontSize: '0.875rem', color: error ? 'var(--accent-danger)' : undefined }}>{error ?? item.message}</span>
+            {!error && (
+                <button
+                    className="btn-secondary"
+                    style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem', color: 'var(--accent-primary)' }}
+                    onClick={handleUndo}
+                    disabled={isRestoring}
+                >
+                    Deshacer
+                </button>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,174 @@
+import type { Session, SetData } from './db';
+import { convertWeight, setUnit } from './units';
+import { setTypeOf } from './setTypes';
+import { isTimedSet } from './timedSets';
+import { activeDurationMs } from './sessionPauses';
+
+// gymtrack keeps every field we log; strong and hevy follow those apps' export headers so
+// the files open in their importers, with GymTrack-only fields appended as extra columns.
+// Weights are written in the unit each set was logged in, next to a unit column, except for
+// Hevy's weight_kg which is always kilograms (blank for machine plates). Hevy's set_type only
+// knows warm-up, drop set and failure, so other set types go out as normal sets there.
+// Timed sets leave reps blank and fill the duration and distance columns instead; distance is
+// in metres in gymtrack and in kilometres in the other two, as those apps write it.
+export type CsvLayout = 'gymtrack' | 'strong' | 'hevy';
+
+export const CSV_LAYOUTS: { id: CsvLayout; label: string }[] = [
+    { id: 'gymtrack', label: 'CSV (GymTrack)' },
+    { id: 'strong', label: 'CSV (Strong)' },
+    { id: 'hevy', label: 'CSV (Hevy)' },
+];
+
+type Row = (string | number)[];
+
+const HEADERS: Record<CsvLayout, string[]> = {
+    gymtrack: [
+        'date', 'workout', 'exercise', 'set_number', 'weight', 'weight_unit', 'reps', 'rpe',
+        'tut_seconds', 'rest_seconds', 'technical_failure', 'set_type', 'parent_set',
+        'duration_seconds', 'distance_m',
+    ],
+    strong: [
+        'Date', 'Workout Name', 'Duration', 'Exercise Name', 'Set Order', 'Weight', 'Reps',
+        'Distance', 'Seconds', 'Notes', 'Workout Notes', 'RPE',
+        'TUT (s)', 'Rest (s)', 'Technical Failure', 'Weight Unit', 'Set Type',
+    ],
+    hevy: [
+        'title', 'start_time', 'end_time', 'description', 'exercise_title', 'superset_id',
+        'exercise_notes', 'set_index', 'set_type', 'weight_kg', 'reps', 'distance_km',
+        'duration_seconds', 'rpe', 'tut_seconds', 'rest_seconds', 'weight', 'weight_unit',
+    ],
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function pad(n: number) {
+    return n.toString().padStart(2, '0');
+}
+
+// 2026-10-19 18:30:00, local time
+function formatStrongDate(timestamp: number) {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+// 19 Oct 2026, 18:30, local time
+function formatHevyDate(timestamp: number) {
+    const d = new Date(timestamp);
+    return `${d.getDate()} ${MONTHS[d.getMonth()]} ${d.getFullYear()}, ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+// Paused time is left out
+function formatStrongDuration(session: Session) {
+    if (!session.endTime) return '';
+    const mins = Math.round(activeDurationMs(session) / 60000);
+    return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}m` : `${mins}m`;
+}
+
+function hevySetType(set: SetData) {
+    const type = setTypeOf(set);
+    if (type === 'warmup') return 'warmup';
+    if (type === 'drop') return 'dropset';
+    return set.technicalFailure ? 'failure' : 'normal';
+}
+
+function escapeCell(value: string | number) {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Row[]): string {
+    return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+function sessionRows(session: Session, layout: CsvLayout, exerciseName: (id: string) => string): Row[] {
+    const rows: Row[] = [];
+
+    for (const exercise of session.exercises) {
+        const name = exerciseName(exercise.exerciseId);
+
+        for (const [i, set] of exercise.sets.entries()) {
+            const tut = Math.round(set.tutMs / 1000);
+            const rest = Math.round(set.restMs / 1000);
+            const unit = setUnit(set);
+            const reps = isTimedSet(set) ? '' : set.reps;
+            const seconds = set.durationMs !== undefined ? Math.round(set.durationMs / 1000) : '';
+            const distanceKm = set.distanceM !== undefined ? set.distanceM / 1000 : '';
+
+            if (layout === 'strong') {
+                rows.push([
+                    formatStrongDate(session.startTime), session.templateName,
+                    formatStrongDuration(session), name, set.setNumber,
+                    set.weight, reps, distanceKm, seconds, '', '', set.rpe,
+                    tut, rest, set.technicalFailure ? 1 : 0, unit, setTypeOf(set),
+                ]);
+            } else if (layout === 'hevy') {
+                rows.push([
+                    session.templateName, formatHevyDate(session.startTime),
+                    session.endTime ? formatHevyDate(session.endTime) : '', '', name, '', '', i,
+                    hevySetType(set), convertWeight(set.weight, unit, 'kg') ?? '',
+                    reps, distanceKm, seconds,
+                    set.rpe, tut, rest, set.weight, unit,
+                ]);
+            } else {
+                rows.push([
+                    new Date(session.startTime).toISOString(), session.templateName, name, set.setNumber,
+                    set.weight, unit, reps, set.rpe, tut, rest, set.technicalFailure ? 1 : 0,
+                    setTypeOf(set), set.parentSetNumber ?? '', seconds, set.distanceM ?? '',
+                ]);
+            }
+        }
+    }
+
+    return rows;
+}
+
+// One row per logged set, oldest session first
+export function sessionsToCsv(sessions: Session[], layout: CsvLayout, exerciseName: (id: string) => string): string {
+    const ordered = [...sessions].sort((a, b) => a.startTime - b.startTime);
+    return toCsv([HEADERS[layout], ...ordered.flatMap(session => sessionRows(session, layout, exerciseName))]);
+}
+
+// RFC 4180 parser. The delimiter is sniffed from the header line since some apps export
+// with ';' in locales that use a decimal comma.
+export function parseCsv(input: string): string[][] {
+    const text = input.replace(/^\uFEFF/, '');
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+}
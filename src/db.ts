@@ -1,7 +1,20 @@
-import { openDB, type IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb';
+import { LATEST_SCHEMA_VERSION, MigrationError, runMigrations, type SchemaInfo } from './migrations';
+import type { WeightUnit } from './units';
+import type { SetType } from './setTypes';
+import type { ExerciseMode } from './timedSets';
+import type { TimerState } from './sessionEngine';
+import {
+    removeGroupReference,
+    removeSessionReferences,
+    removeTemplateReference,
+    restoreGroupReference,
+    restoreSessionReferences,
+    restoreTemplateReference,
+} from './trashReferences';
 
 const DB_NAME = 'gymtrack';
-const DB_VERSION = 1;
+const DB_VERSION = LATEST_SCHEMA_VERSION;
 
 export interface MuscleGroup {
     id: string;
@@ -12,6 +25,37 @@ export interface Exercise {
     id: string;
     name: string;
     muscleGroupIds: string[];
+    // Overrides the global unit preference, e.g. a machine labelled in plates
+    weightUnit?: WeightUnit;
+    progression?: ProgressionRule;
+    // Missing on exercises created before timed ones existed, which are rep-based
+    mode?: ExerciseMode;
+    // Timed exercises that also log a distance, e.g. carries and sled pushes
+    tracksDistance?: boolean;
+}
+
+// How an exercise's target moves from one session to the next (see progression.ts).
+// Increments are in the exercise's unit.
+export type ProgressionRule = {
+    deloadAfterFailures: number;
+    deloadPercent: number;
+} & (
+    | { type: 'doubleProgression'; minReps: number; maxReps: number; increment: number }
+    | { type: 'linear'; increment: number }
+    | { type: 'rpeTarget'; targetRpe: number; increment: number }
+);
+
+// Target load and reps for the next session of an exercise, one record per exercise
+export interface ProgressionState {
+    exerciseId: string;
+    weight: number;
+    unit: WeightUnit;
+    reps: number;
+    // Sessions in a row that missed the target
+    failures: number;
+    // Session the target was computed from
+    sessionId: string;
+    updatedAt: number;
 }
 
 export interface TemplateExercise {
@@ -19,29 +63,92 @@ export interface TemplateExercise {
     sets: number;
     targetReps: number;
     restSeconds: number;
+    // Hold time aimed for by timed exercises, which ignore targetReps
+    targetSeconds?: number;
+    // Exercises sharing a group are done round by round instead of one after the other
+    groupId?: string;
+    // Planned type of each set by index; missing entries are working sets
+    setTypes?: SetType[];
+    // Planned reps, effort and load of each set by index; sets without one aim for targetReps
+    setPrescriptions?: SetPrescription[];
+    // Seconds per phase of every rep, guided by the metronome during the set
+    tempo?: Tempo;
 }
 
+// Written eccentric-pause-concentric-top, e.g. 3-1-2-0
+export interface Tempo {
+    eccentric: number;
+    pause: number;
+    concentric: number;
+    top: number;
+}
+
+export type EffortTarget = { type: 'rpe'; value: number } | { type: 'rir'; value: number };
+
+export type LoadTarget =
+    | { type: 'absolute'; weight: number; unit: WeightUnit }
+    | { type: 'percent1RM'; percent: number };
+
+// minReps === maxReps for a fixed count
+export interface SetPrescription {
+    minReps: number;
+    maxReps: number;
+    effort?: EffortTarget;
+    load?: LoadTarget;
+}
+
+export type ExerciseGroupType = 'superset' | 'giantSet' | 'circuit';
+
+// One set of each member in order makes a round; the rest comes after the round, not
+// between its sets
+export interface ExerciseGroup {
+    id: string;
+    type: ExerciseGroupType;
+    restAfterRoundSeconds: number;
+}
+
+// What a session exercise was planned as, without the exercise it applies to
+export type ExercisePrescription = Omit<TemplateExercise, 'exerciseId'>;
+
 export interface WorkoutTemplate {
     id: string;
     name: string;
     exercises: TemplateExercise[];
+    groups?: ExerciseGroup[];
 }
 
 export interface SetData {
     setNumber: number;
     weight: number;
+    // Unit `weight` was logged in; missing on sets logged before units existed, which are kg
+    unit?: WeightUnit;
+    // 0 on timed sets, which record durationMs instead
     reps: number;
     rpe: number;
     technicalFailure: boolean;
+    durationMs?: number;
+    distanceM?: number;
+    // Missing on sets logged before set types existed, which are working sets
+    type?: SetType;
+    // setNumber of the set a drop or rest-pause set continues
+    parentSetNumber?: number;
     tutMs: number;
     restMs: number;
     startTime: number;
     endTime: number;
+    // Set when the logged values were corrected, or the set was added, after the fact
+    editedAt?: number;
 }
 
 export interface SessionExercise {
     exerciseId: string;
     sets: SetData[];
+    // Snapshot of the plan when the exercise was added, so a session can be resumed without
+    // its template. Missing on sessions recorded before it existed.
+    prescription?: ExercisePrescription;
+    // Mid-session changes: the exercise this one replaced, or added on top of the plan
+    swappedFromExerciseId?: string;
+    added?: boolean;
 }
 
 export interface Session {
@@ -52,39 +159,288 @@ export interface Session {
     endTime?: number;
     exercises: SessionExercise[];
     completed: boolean;
+    // Snapshot of the template's groups, referenced by the exercises' prescriptions
+    groups?: ExerciseGroup[];
+    // Set when the session came from another app's CSV export
+    importSource?: string;
+    // Times the session was paused, oldest first; missing when it never was
+    pauses?: SessionPause[];
+    // Set timer of an unfinished session, written in the same transaction as its sets so the
+    // two cannot disagree after a crash; missing once finished
+    timer?: SessionTimer;
+}
+
+// What the timer screen needs to carry on where it was (see sessionEngine). Where the session
+// stands in its plan is not kept: it follows from the sets logged.
+export interface SessionTimer {
+    state: TimerState;
+    tutStartTime: number | null;
+    restStartTime: number | null;
+    countdownEndTime: number | null;
+    lastTutMs: number;
+    setRegistered: boolean;
+    // While PAUSED: the state to resume and when the pause began
+    pausedFrom?: TimerState;
+    pauseStartTime?: number;
+}
+
+// `end` is missing while the pause lasts
+export interface SessionPause {
+    start: number;
+    end?: number;
+}
+
+// Session as written to IndexedDB, with the 0/1 mirror of `completed` used by the indexes
+export interface StoredSession extends Session {
+    completedKey: 0 | 1;
+}
+
+export interface SessionQuery {
+    completed?: boolean;
+    templateId?: string;
+    // Inclusive bounds on startTime (ms)
+    from?: number;
+    to?: number;
+    order?: 'newest' | 'oldest';
+    // Zero-based; ignored when pageSize is not set
+    page?: number;
+    pageSize?: number;
+}
+
+export interface SessionPage {
+    sessions: Session[];
+    total: number;
+    hasMore: boolean;
+}
+
+// One logged set, denormalised with its session so per-exercise history is a single index scan.
+// Derived from `sessions`: rewritten by saveSession and removed by deleteSession.
+export interface ExerciseSetEntry {
+    id: string;
+    sessionId: string;
+    exerciseId: string;
+    sessionStartTime: number;
+    templateId: string;
+    templateName: string;
+    sessionCompleted: boolean;
+    // Position inside the session, keeps sets of the same session in logging order
+    order: number;
+    set: SetData;
+}
+
+export interface ExerciseHistoryQuery {
+    from?: number;
+    to?: number;
+    order?: 'oldest' | 'newest';
+    limit?: number;
+    completedOnly?: boolean;
+    excludeSessionId?: string;
+}
+
+// Raw contents of every user-data store, as written into a backup file
+export interface BackupData {
+    muscleGroups: MuscleGroup[];
+    exercises: Exercise[];
+    templates: WorkoutTemplate[];
+    sessions: Session[];
+    // Missing in files from before they were backed up (format v1)
+    progression?: ProgressionState[];
+    trash?: TrashEntry[];
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// The shareable part of the data: everything except training history
+export type LibraryData = Pick<BackupData, 'muscleGroups' | 'exercises' | 'templates'>;
+
+export interface MuscleGroupUsage {
+    exercises: Exercise[];
 }
 
-interface GymTrackDB {
-    muscleGroups: MuscleGroup;
-    exercises: Exercise;
-    templates: WorkoutTemplate;
-    sessions: Session;
+export interface ExerciseUsage {
+    templates: WorkoutTemplate[];
+    sessionIds: string[];
+    setCount: number;
+}
+
+// What to do with references when deleting an item that is still in use
+export type DeleteStrategy =
+    | { mode: 'block' }
+    | { mode: 'cascade' }
+    | { mode: 'reassign'; targetId: string };
+
+export class ReferenceInUseError extends Error {
+    readonly itemId: string;
+
+    constructor(kind: 'muscleGroup' | 'exercise', itemId: string) {
+        super(`Cannot delete ${kind} ${itemId}: it is still referenced`);
+        this.name = 'ReferenceInUseError';
+        this.itemId = itemId;
+    }
+}
+
+// Deleted records live in the trash store until restored or purged, so every getter on the
+// regular stores excludes them without extra filtering
+export const TRASH_RETENTION_DAYS = 30;
+
+// A reference a cascade or reassign changed, kept so restoring the deleted item puts it back
+// into the record as it is by then (see trashReferences.ts). `index` is where it was in the
+// record; `targetId` is set when a reassign pointed it at another item instead of dropping it.
+export type ReferenceChange =
+    // The group in the exercise's muscleGroupIds, and the group a reassign added in its place
+    | { store: 'exercises'; id: string; index: number; added?: string }
+    // The exercise's entry; `merged` is the target's entry before the entry was merged into it
+    | { store: 'templates'; id: string; index: number; entry: TemplateExercise; targetId?: string; merged?: TemplateExercise }
+    // One entry of the exercise, with its sets
+    | { store: 'sessions'; id: string; index: number; entry: SessionExercise; targetId?: string };
+
+export type TrashEntry = {
+    id: string;
+    deletedAt: number;
+    label: string;
+    related: ReferenceChange[];
+} & (
+    | { kind: 'muscleGroup'; record: MuscleGroup }
+    | { kind: 'exercise'; record: Exercise }
+    | { kind: 'template'; record: WorkoutTemplate }
+    | { kind: 'session'; record: Session }
+);
+
+export interface GymTrackDB extends DBSchema {
+    muscleGroups: { key: string; value: MuscleGroup };
+    exercises: { key: string; value: Exercise };
+    templates: { key: string; value: WorkoutTemplate };
+    sessions: {
+        key: string;
+        value: StoredSession;
+        indexes: {
+            startTime: number;
+            completed: [number, number];
+            templateId: [string, number];
+        };
+    };
+    exerciseSets: {
+        key: string;
+        value: ExerciseSetEntry;
+        indexes: {
+            exerciseId: [string, number, number];
+            sessionId: string;
+        };
+    };
+    trash: {
+        key: string;
+        value: TrashEntry;
+        indexes: { deletedAt: number };
+    };
+    progression: { key: string; value: ProgressionState };
+    meta: { key: string; value: SchemaInfo };
 }
 
 let dbPromise: Promise<IDBPDatabase<GymTrackDB>> | null = null;
 
 function getDB() {
     if (!dbPromise) {
+        let migrationFailure: MigrationError | null = null;
+
         dbPromise = openDB<GymTrackDB>(DB_NAME, DB_VERSION, {
-            upgrade(db) {
-                if (!db.objectStoreNames.contains('muscleGroups')) {
-                    db.createObjectStore('muscleGroups', { keyPath: 'id' });
-                }
-                if (!db.objectStoreNames.contains('exercises')) {
-                    db.createObjectStore('exercises', { keyPath: 'id' });
-                }
-                if (!db.objectStoreNames.contains('templates')) {
-                    db.createObjectStore('templates', { keyPath: 'id' });
-                }
-                if (!db.objectStoreNames.contains('sessions')) {
-                    db.createObjectStore('sessions', { keyPath: 'id' });
-                }
+            upgrade(database, oldVersion, _newVersion, transaction) {
+                runMigrations(database, transaction, oldVersion).catch(err => {
+                    migrationFailure = err instanceof MigrationError
+                        ? err
+                        : new MigrationError(oldVersion, DB_VERSION, err);
+                    // Aborting the versionchange transaction rolls back every migration step
+                    // and leaves the database on its previous version.
+                    try {
+                        transaction.abort();
+                    } catch {
+                        // Already finished or aborted
+                    }
+                });
+            },
+            blocking(_currentVersion, _blockedVersion, event) {
+                // Another tab wants a newer schema: step aside so its upgrade can run
+                (event.target as IDBDatabase).close();
+                dbPromise = null;
             },
+        }).catch(err => {
+            dbPromise = null;
+            throw migrationFailure ?? err;
         });
     }
     return dbPromise;
 }
 
+function toStoredSession(session: Session): StoredSession {
+    return { ...session, completedKey: session.completed ? 1 : 0 };
+}
+
+function deriveExerciseSets(session: Session): ExerciseSetEntry[] {
+    return session.exercises.flatMap((exercise, exerciseIndex) =>
+        exercise.sets.map((set, setIndex) => ({
+            id: `${session.id}:${exerciseIndex}:${setIndex}`,
+            sessionId: session.id,
+            exerciseId: exercise.exerciseId,
+            sessionStartTime: session.startTime,
+            templateId: session.templateId,
+            templateName: session.templateName,
+            sessionCompleted: session.completed,
+            order: exerciseIndex * 1000 + setIndex,
+            set,
+        }))
+    );
+}
+
+// Any readwrite transaction that includes both 'sessions' and 'exerciseSets'
+type SessionWriteTransaction = IDBPTransaction<GymTrackDB, StoreNames<GymTrackDB>[], 'readwrite'>;
+
+async function clearExerciseSets(tx: SessionWriteTransaction, sessionId: string) {
+    const keys = await tx.objectStore('exerciseSets').index('sessionId').getAllKeys(sessionId);
+    await Promise.all(keys.map(key => tx.objectStore('exerciseSets').delete(key)));
+}
+
+// Writes a session and re-derives its exerciseSets rows in the caller's transaction
+async function writeSession(tx: SessionWriteTransaction, session: Session) {
+    await clearExerciseSets(tx, session.id);
+    await tx.objectStore('sessions').put(toStoredSession(session));
+    await Promise.all(deriveExerciseSets(session).map(entry => tx.objectStore('exerciseSets').put(entry)));
+}
+
+async function removeSession(tx: SessionWriteTransaction, sessionId: string) {
+    await clearExerciseSets(tx, sessionId);
+    await tx.objectStore('sessions').delete(sessionId);
+}
+
+// Applies a trash entry's reference changes to the records as they are now, skipping the
+// ones deleted since
+async function restoreReferences(tx: SessionWriteTransaction, entry: TrashEntry) {
+    const byRecord = new Map<string, ReferenceChange[]>();
+    for (const change of entry.related) {
+        const key = `${change.store}:${change.id}`;
+        byRecord.set(key, [...byRecord.get(key) ?? [], change]);
+    }
+
+    for (const [first, ...rest] of byRecord.values()) {
+        if (first.store === 'exercises') {
+            const exercise = await tx.objectStore('exercises').get(first.id);
+            if (exercise) await tx.objectStore('exercises').put(restoreGroupReference(exercise, entry.record.id, first));
+        } else if (first.store === 'templates') {
+            const template = await tx.objectStore('templates').get(first.id);
+            if (template) await tx.objectStore('templates').put(restoreTemplateReference(template, first));
+        } else {
+            const session = await tx.objectStore('sessions').get(first.id);
+            const changes = [first, ...rest].filter(change => change.store === 'sessions');
+            if (session) await writeSession(tx, restoreSessionReferences(session, changes));
+        }
+    }
+}
+
+// tx.done rejects once a transaction is aborted; the caller throws its own error instead,
+// so that rejection is expected and must not go unhandled
+function abortTransaction(tx: { abort(): void; done: Promise<void> }) {
+    tx.done.catch(() => {});
+    tx.abort();
+}
+
 // Generic CRUD operations
 export const db = {
     // Muscle Groups
@@ -103,9 +459,45 @@ export const db = {
         await database.put('muscleGroups', group);
     },
 
-    async deleteMuscleGroup(id: string): Promise<void> {
+    async getMuscleGroupUsage(id: string): Promise<MuscleGroupUsage> {
         const database = await getDB();
-        await database.delete('muscleGroups', id);
+        const exercises = await database.getAll('exercises');
+        return { exercises: exercises.filter(e => e.muscleGroupIds.includes(id)) };
+    },
+
+    // Deleting a group only touches exercises: sessions and templates never reference groups directly
+    // Returns the trash entry id, for undo
+    async deleteMuscleGroup(id: string, strategy: DeleteStrategy = { mode: 'block' }): Promise<string> {
+        const database = await getDB();
+        const tx = database.transaction(['muscleGroups', 'exercises', 'trash'], 'readwrite');
+        const group = await tx.objectStore('muscleGroups').get(id);
+        const exercises = (await tx.objectStore('exercises').getAll()).filter(e => e.muscleGroupIds.includes(id));
+
+        if (!group || (exercises.length > 0 && strategy.mode === 'block')) {
+            abortTransaction(tx);
+            throw group ? new ReferenceInUseError('muscleGroup', id) : new Error(`Muscle group ${id} not found`);
+        }
+
+        const targetId = strategy.mode === 'reassign' ? strategy.targetId : undefined;
+        const related: ReferenceChange[] = [];
+        for (const exercise of exercises) {
+            const { record, change } = removeGroupReference(exercise, id, targetId);
+            await tx.objectStore('exercises').put(record);
+            related.push(change);
+        }
+
+        const trashId = generateId();
+        await tx.objectStore('trash').put({
+            id: trashId,
+            kind: 'muscleGroup',
+            record: group,
+            label: group.name,
+            deletedAt: Date.now(),
+            related,
+        });
+        await tx.objectStore('muscleGroups').delete(id);
+        await tx.done;
+        return trashId;
     },
 
     // Exercises
@@ -124,9 +516,72 @@ export const db = {
         await database.put('exercises', exercise);
     },
 
-    async deleteExercise(id: string): Promise<void> {
+    async getExerciseUsage(id: string): Promise<ExerciseUsage> {
         const database = await getDB();
-        await database.delete('exercises', id);
+        const [templates, history, active] = await Promise.all([
+            database.getAll('templates'),
+            this.getExerciseHistory(id),
+            database.getAllFromIndex('sessions', 'completed', IDBKeyRange.bound([0, 0], [0, Number.MAX_SAFE_INTEGER])),
+        ]);
+        // Unfinished sessions may list the exercise before any set of it has been logged
+        const sessionIds = new Set(history.map(entry => entry.sessionId));
+        for (const session of active) {
+            if (session.exercises.some(e => e.exerciseId === id)) sessionIds.add(session.id);
+        }
+        return {
+            templates: templates.filter(t => t.exercises.some(te => te.exerciseId === id)),
+            sessionIds: [...sessionIds],
+            setCount: history.length,
+        };
+    },
+
+    // cascade drops the exercise from templates and its logged sets from past sessions;
+    // reassign points every reference at targetId instead (useful to merge duplicates). A
+    // template that has both ends up with one entry holding the sets of the two.
+    async deleteExercise(id: string, strategy: DeleteStrategy = { mode: 'block' }): Promise<string> {
+        const usage = await this.getExerciseUsage(id);
+        const inUse = usage.templates.length > 0 || usage.sessionIds.length > 0;
+        if (inUse && strategy.mode === 'block') {
+            throw new ReferenceInUseError('exercise', id);
+        }
+
+        const database = await getDB();
+        const tx = database.transaction(['exercises', 'templates', 'sessions', 'exerciseSets', 'trash'], 'readwrite');
+        const exercise = await tx.objectStore('exercises').get(id);
+        if (!exercise) {
+            abortTransaction(tx);
+            throw new Error(`Exercise ${id} not found`);
+        }
+        const targetId = strategy.mode === 'reassign' ? strategy.targetId : undefined;
+        const related: ReferenceChange[] = [];
+
+        for (const template of usage.templates) {
+            const removed = removeTemplateReference(template, id, targetId);
+            if (!removed) continue;
+            await tx.objectStore('templates').put(removed.record);
+            related.push(removed.change);
+        }
+
+        for (const sessionId of usage.sessionIds) {
+            const session = await tx.objectStore('sessions').get(sessionId);
+            if (!session) continue;
+            const { record, changes } = removeSessionReferences(session, id, targetId);
+            await writeSession(tx, record);
+            related.push(...changes);
+        }
+
+        const trashId = generateId();
+        await tx.objectStore('trash').put({
+            id: trashId,
+            kind: 'exercise',
+            record: exercise,
+            label: exercise.name,
+            deletedAt: Date.now(),
+            related,
+        });
+        await tx.objectStore('exercises').delete(id);
+        await tx.done;
+        return trashId;
     },
 
     // Templates
@@ -145,9 +600,26 @@ export const db = {
         await database.put('templates', template);
     },
 
-    async deleteTemplate(id: string): Promise<void> {
+    async deleteTemplate(id: string): Promise<string> {
         const database = await getDB();
-        await database.delete('templates', id);
+        const tx = database.transaction(['templates', 'trash'], 'readwrite');
+        const template = await tx.objectStore('templates').get(id);
+        if (!template) {
+            abortTransaction(tx);
+            throw new Error(`Template ${id} not found`);
+        }
+        const trashId = generateId();
+        await tx.objectStore('trash').put({
+            id: trashId,
+            kind: 'template',
+            record: template,
+            label: template.name,
+            deletedAt: Date.now(),
+            related: [],
+        });
+        await tx.objectStore('templates').delete(id);
+        await tx.done;
+        return trashId;
     },
 
     // Sessions
@@ -163,18 +635,349 @@ export const db = {
 
     async saveSession(session: Session): Promise<void> {
         const database = await getDB();
-        await database.put('sessions', session);
+        const tx = database.transaction(['sessions', 'exerciseSets'], 'readwrite');
+        await Promise.all([writeSession(tx, session), tx.done]);
+    },
+
+    // Only the timer of an unfinished session: sets saved meanwhile are kept, and a finished
+    // session is left alone
+    async saveSessionTimer(id: string, timer: SessionTimer): Promise<void> {
+        const database = await getDB();
+        const tx = database.transaction('sessions', 'readwrite');
+        const session = await tx.store.get(id);
+        if (session && !session.completed) await tx.store.put({ ...session, timer });
+        await tx.done;
+    },
+
+    async deleteSession(id: string): Promise<string> {
+        const database = await getDB();
+        const tx = database.transaction(['sessions', 'exerciseSets', 'trash'], 'readwrite');
+        const session = await tx.objectStore('sessions').get(id);
+        if (!session) {
+            abortTransaction(tx);
+            throw new Error(`Session ${id} not found`);
+        }
+        const trashId = generateId();
+        await tx.objectStore('trash').put({
+            id: trashId,
+            kind: 'session',
+            record: session,
+            label: session.templateName,
+            deletedAt: Date.now(),
+            related: [],
+        });
+        await removeSession(tx, id);
+        await tx.done;
+        return trashId;
+    },
+
+    // Unfinished sessions, most recently started first
+    async getActiveSessions(): Promise<Session[]> {
+        const database = await getDB();
+        const range = IDBKeyRange.bound([0, 0], [0, Number.MAX_SAFE_INTEGER]);
+        const sessions = await database.getAllFromIndex('sessions', 'completed', range);
+        return sessions.reverse();
     },
 
-    async deleteSession(id: string): Promise<void> {
+    // Paginated, index-backed session listing. Picks the narrowest index for the query
+    // and only falls back to filtering in memory when both templateId and completed are set.
+    async querySessions(query: SessionQuery = {}): Promise<SessionPage> {
         const database = await getDB();
-        await database.delete('sessions', id);
+        const store = database.transaction('sessions').store;
+        const from = query.from ?? 0;
+        const to = query.to ?? Number.MAX_SAFE_INTEGER;
+        const direction = query.order === 'oldest' ? 'next' : 'prev';
+        const offset = query.pageSize ? (query.page ?? 0) * query.pageSize : 0;
+        const limit = query.pageSize ?? Infinity;
+
+        let cursorPromise;
+        let countPromise: Promise<number> | null = null;
+
+        if (query.templateId !== undefined) {
+            const range = IDBKeyRange.bound([query.templateId, from], [query.templateId, to]);
+            cursorPromise = store.index('templateId').openCursor(range, direction);
+            if (query.completed === undefined) {
+                countPromise = store.index('templateId').count(range);
+            }
+        } else if (query.completed !== undefined) {
+            const flag = query.completed ? 1 : 0;
+            const range = IDBKeyRange.bound([flag, from], [flag, to]);
+            cursorPromise = store.index('completed').openCursor(range, direction);
+            countPromise = store.index('completed').count(range);
+        } else {
+            const range = IDBKeyRange.bound(from, to);
+            cursorPromise = store.index('startTime').openCursor(range, direction);
+            countPromise = store.index('startTime').count(range);
+        }
+
+        const sessions: Session[] = [];
+        let matched = 0;
+        let cursor = await cursorPromise;
+
+        if (countPromise && offset > 0 && cursor) {
+            // Every record in range matches, so the cursor can jump straight to the page
+            cursor = await cursor.advance(offset);
+            matched = offset;
+        }
+
+        while (cursor) {
+            const session = cursor.value;
+            if (query.completed === undefined || session.completed === query.completed) {
+                if (matched >= offset && sessions.length < limit) {
+                    sessions.push(session);
+                }
+                matched++;
+                if (countPromise && sessions.length >= limit) break;
+            }
+            cursor = await cursor.continue();
+        }
+
+        const total = countPromise ? await countPromise : matched;
+        return { sessions, total, hasMore: offset + sessions.length < total };
+    },
+
+    // Exercise history
+    // Every set logged for an exercise across all sessions, oldest first unless order is 'newest'
+    async getExerciseHistory(exerciseId: string, query: ExerciseHistoryQuery = {}): Promise<ExerciseSetEntry[]> {
+        const database = await getDB();
+        const range = IDBKeyRange.bound(
+            [exerciseId, query.from ?? 0, 0],
+            [exerciseId, query.to ?? Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]
+        );
+        const direction = query.order === 'newest' ? 'prev' : 'next';
+        const limit = query.limit ?? Infinity;
+        const entries: ExerciseSetEntry[] = [];
+
+        let cursor = await database.transaction('exerciseSets').store.index('exerciseId').openCursor(range, direction);
+        while (cursor && entries.length < limit) {
+            const entry = cursor.value;
+            if ((!query.completedOnly || entry.sessionCompleted) && entry.sessionId !== query.excludeSessionId) {
+                entries.push(entry);
+            }
+            cursor = await cursor.continue();
+        }
+        return entries;
+    },
+
+    // Sets of the exercise in the most recent completed session that included it, in logging
+    // order; empty when it was never done before
+    async getLastPerformance(exerciseId: string, excludeSessionId?: string): Promise<SetData[]> {
+        const database = await getDB();
+        const range = IDBKeyRange.bound([exerciseId, 0, 0], [exerciseId, Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER]);
+        const sets: SetData[] = [];
+        let sessionId: string | undefined;
+
+        let cursor = await database.transaction('exerciseSets').store.index('exerciseId').openCursor(range, 'prev');
+        while (cursor) {
+            const entry = cursor.value;
+            if (entry.sessionCompleted && entry.sessionId !== excludeSessionId) {
+                if (sessionId !== undefined && entry.sessionId !== sessionId) break;
+                sessionId = entry.sessionId;
+                sets.unshift(entry.set);
+            }
+            cursor = await cursor.continue();
+        }
+        return sets;
+    },
+
+    // Progression targets
+    async getProgression(exerciseId: string): Promise<ProgressionState | undefined> {
+        const database = await getDB();
+        return database.get('progression', exerciseId);
+    },
+
+    async getAllProgression(): Promise<ProgressionState[]> {
+        const database = await getDB();
+        return database.getAll('progression');
+    },
+
+    async saveProgression(states: ProgressionState[]): Promise<void> {
+        const database = await getDB();
+        const tx = database.transaction('progression', 'readwrite');
+        await Promise.all(states.map(state => tx.store.put(state)));
+        await tx.done;
+    },
+
+    // Swaps the targets of the given exercises for `states`; those left without one lose it
+    async replaceProgression(exerciseIds: string[], states: ProgressionState[]): Promise<void> {
+        const database = await getDB();
+        const tx = database.transaction('progression', 'readwrite');
+        await Promise.all(exerciseIds.map(id => tx.store.delete(id)));
+        await Promise.all(states.map(state => tx.store.put(state)));
+        await tx.done;
+    },
+
+    // Writes a reviewed library import in one transaction
+    async importLibrary(data: LibraryData): Promise<void> {
+        const database = await getDB();
+        const tx = database.transaction(['muscleGroups', 'exercises', 'templates'], 'readwrite');
+        for (const group of data.muscleGroups) {
+            await tx.objectStore('muscleGroups').put(group);
+        }
+        for (const exercise of data.exercises) {
+            await tx.objectStore('exercises').put(exercise);
+        }
+        for (const template of data.templates) {
+            await tx.objectStore('templates').put(template);
+        }
+        await tx.done;
+    },
+
+    // Writes imported history. Sessions whose id already exists are skipped, so importing
+    // the same file twice is a no-op; new exercises are only created for the sessions written.
+    async importSessions(sessions: Session[], newExercises: Exercise[]): Promise<{ added: number, skipped: number }> {
+        const database = await getDB();
+        const tx = database.transaction(['exercises', 'sessions', 'exerciseSets'], 'readwrite');
+        const used = new Set<string>();
+        let added = 0;
+
+        for (const session of sessions) {
+            if (await tx.objectStore('sessions').getKey(session.id)) continue;
+            await writeSession(tx, session);
+            session.exercises.forEach(ex => used.add(ex.exerciseId));
+            added++;
+        }
+        for (const exercise of newExercises.filter(e => used.has(e.id))) {
+            await tx.objectStore('exercises').put(exercise);
+        }
+        await tx.done;
+        return { added, skipped: sessions.length - added };
+    },
+
+    // Trash
+    async getTrash(): Promise<TrashEntry[]> {
+        const database = await getDB();
+        const entries = await database.getAllFromIndex('trash', 'deletedAt');
+        return entries.reverse();
+    },
+
+    // Puts the record back, along with the references a cascade or reassign changed, in the
+    // records as they are now.
+    // Returns the entry, so callers can tell what came back.
+    async restoreFromTrash(trashId: string): Promise<TrashEntry> {
+        const database = await getDB();
+        const tx = database.transaction(
+            ['muscleGroups', 'exercises', 'templates', 'sessions', 'exerciseSets', 'trash'],
+            'readwrite'
+        );
+        const entry = await tx.objectStore('trash').get(trashId);
+        if (!entry) {
+            abortTransaction(tx);
+            throw new Error(`Trash entry ${trashId} not found`);
+        }
+
+        if (entry.kind === 'muscleGroup') {
+            await tx.objectStore('muscleGroups').put(entry.record);
+        } else if (entry.kind === 'exercise') {
+            await tx.objectStore('exercises').put(entry.record);
+        } else if (entry.kind === 'template') {
+            await tx.objectStore('templates').put(entry.record);
+        } else {
+            await writeSession(tx, entry.record);
+        }
+        await restoreReferences(tx, entry);
+        await tx.objectStore('trash').delete(trashId);
+        await tx.done;
+        return entry;
+    },
+
+    async deleteFromTrash(trashId: string): Promise<void> {
+        const database = await getDB();
+        await database.delete('trash', trashId);
+    },
+
+    async emptyTrash(): Promise<void> {
+        const database = await getDB();
+        await database.clear('trash');
+    },
+
+    // Permanently drops entries deleted more than maxAgeDays ago
+    async purgeTrash(maxAgeDays = TRASH_RETENTION_DAYS): Promise<number> {
+        const database = await getDB();
+        const tx = database.transaction('trash', 'readwrite');
+        const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+        const keys = await tx.store.index('deletedAt').getAllKeys(IDBKeyRange.upperBound(cutoff));
+        await Promise.all(keys.map(key => tx.store.delete(key)));
+        await tx.done;
+        return keys.length;
+    },
+
+    // Backup
+    async exportAll(): Promise<BackupData> {
+        const database = await getDB();
+        const tx = database.transaction(['muscleGroups', 'exercises', 'templates', 'sessions', 'progression', 'trash']);
+        const [muscleGroups, exercises, templates, sessions, progression, trash] = await Promise.all([
+            tx.objectStore('muscleGroups').getAll(),
+            tx.objectStore('exercises').getAll(),
+            tx.objectStore('templates').getAll(),
+            tx.objectStore('sessions').getAll(),
+            tx.objectStore('progression').getAll(),
+            tx.objectStore('trash').getAll(),
+        ]);
+        return { muscleGroups, exercises, templates, sessions, progression, trash };
+    },
+
+    // replace wipes every store first, trash included; merge only adds records whose id is not
+    // present yet, and targets for exercises that have none. Runs in a single transaction, so a
+    // failure leaves the current data untouched.
+    async restoreAll(data: BackupData, mode: RestoreMode): Promise<void> {
+        const database = await getDB();
+        const tx = database.transaction(
+            ['muscleGroups', 'exercises', 'templates', 'sessions', 'exerciseSets', 'trash', 'progression'],
+            'readwrite'
+        );
+
+        // Targets go with the history they were computed from: the backup's replace these
+        if (mode === 'replace') {
+            await Promise.all([
+                tx.objectStore('progression').clear(),
+                tx.objectStore('muscleGroups').clear(),
+                tx.objectStore('exercises').clear(),
+                tx.objectStore('templates').clear(),
+                tx.objectStore('sessions').clear(),
+                tx.objectStore('exerciseSets').clear(),
+                tx.objectStore('trash').clear(),
+            ]);
+        }
+
+        const existing = mode === 'merge'
+            ? new Set([
+                ...await tx.objectStore('muscleGroups').getAllKeys(),
+                ...await tx.objectStore('exercises').getAllKeys(),
+                ...await tx.objectStore('templates').getAllKeys(),
+                ...await tx.objectStore('sessions').getAllKeys(),
+            ])
+            : new Set<string>();
+        const isNew = (record: { id: string }) => !existing.has(record.id);
+
+        for (const group of data.muscleGroups.filter(isNew)) {
+            await tx.objectStore('muscleGroups').put(group);
+        }
+        for (const exercise of data.exercises.filter(isNew)) {
+            await tx.objectStore('exercises').put(exercise);
+        }
+        for (const template of data.templates.filter(isNew)) {
+            await tx.objectStore('templates').put(template);
+        }
+        for (const session of data.sessions.filter(isNew)) {
+            await writeSession(tx, session);
+        }
+
+        const targeted = new Set(mode === 'merge' ? await tx.objectStore('progression').getAllKeys() : []);
+        for (const state of (data.progression ?? []).filter(s => !targeted.has(s.exerciseId))) {
+            await tx.objectStore('progression').put(state);
+        }
+        const trashed = new Set(mode === 'merge' ? await tx.objectStore('trash').getAllKeys() : []);
+        for (const entry of (data.trash ?? []).filter(e => !trashed.has(e.id))) {
+            await tx.objectStore('trash').put(entry);
+        }
+        await tx.done;
     },
 
-    async getActiveSession(): Promise<Session | undefined> {
+    // Schema
+    async getSchemaInfo(): Promise<SchemaInfo | undefined> {
         const database = await getDB();
-        const sessions = await database.getAll('sessions');
-        return sessions.find(s => !s.completed);
+        return database.get('meta', 'schema');
     },
 };
 
@@ -0,0 +1,65 @@
+import { generateId, type ExerciseGroup, type ExerciseGroupType, type TemplateExercise } from './db';
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+    superset: 'Superserie',
+    giantSet: 'Serie gigante',
+    circuit: 'Circuito',
+};
+
+export const DEFAULT_ROUND_REST_SECONDS = 90;
+
+export interface GroupedExercises {
+    exercises: TemplateExercise[];
+    groups: ExerciseGroup[];
+}
+
+// Groups are contiguous runs of the template's exercises: a group nobody belongs to any more,
+// or with a single member left, is dropped along with the references to it
+export function normalizeGroups({ exercises, groups }: GroupedExercises): GroupedExercises {
+    const counts = new Map<string, number>();
+    for (const te of exercises) {
+        if (te.groupId) counts.set(te.groupId, (counts.get(te.groupId) ?? 0) + 1);
+    }
+    const kept = groups.filter(g => (counts.get(g.id) ?? 0) >= 2);
+    const keptIds = new Set(kept.map(g => g.id));
+    return {
+        exercises: exercises.map(te =>
+            !te.groupId || keptIds.has(te.groupId) ? te : { ...te, groupId: undefined }
+        ),
+        groups: kept,
+    };
+}
+
+// Joins the exercise at `index` to the group of the one before it, starting a superset when
+// that one is not grouped yet. A group the exercise was leading comes along with it.
+export function linkToPrevious(data: GroupedExercises, index: number): GroupedExercises {
+    const previous = data.exercises[index - 1];
+    const current = data.exercises[index];
+    if (!previous || !current) return data;
+
+    const groups = [...data.groups];
+    let groupId = previous.groupId;
+    if (!groupId) {
+        groupId = generateId();
+        groups.push({ id: groupId, type: 'superset', restAfterRoundSeconds: DEFAULT_ROUND_REST_SECONDS });
+    }
+    const absorbed = current.groupId;
+    const exercises = data.exercises.map((te, i) =>
+        i === index - 1 || i === index || (absorbed && te.groupId === absorbed) ? { ...te, groupId } : te
+    );
+    return normalizeGroups({ exercises, groups });
+}
+
+// Splits the group before the exercise at `index`; the exercises from there on that shared
+// the group form a new one of the same kind
+export function unlinkFromPrevious(data: GroupedExercises, index: number): GroupedExercises {
+    const groupId = data.exercises[index]?.groupId;
+    const group = data.groups.find(g => g.id === groupId);
+    if (!groupId || !group) return data;
+
+    const splitId = generateId();
+    const exercises = data.exercises.map((te, i) =>
+        i >= index && te.groupId === groupId ? { ...te, groupId: splitId } : te
+    );
+    return normalizeGroups({ exercises, groups: [...data.groups, { ...group, id: splitId }] });
+}
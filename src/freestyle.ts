@@ -0,0 +1,58 @@
+import {
+    generateId,
+    type ExercisePrescription,
+    type Session,
+    type SetData,
+    type WorkoutTemplate
+} from './db';
+import { isTimedSet } from './timedSets';
+
+// Route parameter and Session.templateId of sessions started without a template
+export const FREESTYLE_TEMPLATE_ID = 'freestyle';
+
+export const FREESTYLE_NAME = 'Entreno libre';
+
+export const DEFAULT_PRESCRIPTION: ExercisePrescription = {
+    sets: 3,
+    targetReps: 10,
+    restSeconds: 90,
+};
+
+export function isFreestyle(session: Pick<Session, 'templateId'>): boolean {
+    return session.templateId === FREESTYLE_TEMPLATE_ID;
+}
+
+// A new template from what was actually performed: one entry per exercise with logged sets,
+// using the number of sets done and their average reps, or average hold time for timed sets.
+// An exercise done in two separate blocks becomes a single entry, since templates list each
+// exercise once.
+export function templateFromSession(session: Session, name: string): WorkoutTemplate {
+    const performed = new Map<string, { sets: SetData[]; restSeconds: number }>();
+    for (const ex of session.exercises) {
+        if (ex.sets.length === 0) continue;
+        const entry = performed.get(ex.exerciseId);
+        if (entry) {
+            entry.sets.push(...ex.sets);
+        } else {
+            performed.set(ex.exerciseId, {
+                sets: [...ex.sets],
+                restSeconds: ex.prescription?.restSeconds ?? DEFAULT_PRESCRIPTION.restSeconds,
+            });
+        }
+    }
+
+    const average = (sets: SetData[], value: (set: SetData) => number) =>
+        Math.max(1, Math.round(sets.reduce((sum, set) => sum + value(set), 0) / sets.length));
+
+    return {
+        id: generateId(),
+        name,
+        exercises: [...performed].map(([exerciseId, { sets, restSeconds }]) => ({
+            exerciseId,
+            sets: sets.length,
+            targetReps: average(sets, set => set.reps),
+            ...(sets.every(isTimedSet) && { targetSeconds: average(sets, set => (set.durationMs ?? 0) / 1000) }),
+            restSeconds,
+        })),
+    };
+}
@@ -0,0 +1,345 @@
+import { parseCsv } from './csv';
+import type { Exercise, Session, SetData } from './db';
+import { WEIGHT_UNITS, type WeightUnit } from './units';
+import { isSetType, linkSets, type SetType } from './setTypes';
+
+export type HistorySource = 'strong' | 'hevy' | 'fitnotes' | 'gymtrack';
+
+export const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+    strong: 'Strong',
+    hevy: 'Hevy',
+    fitnotes: 'FitNotes',
+    gymtrack: 'GymTrack',
+};
+
+export interface ImportedSet {
+    weight: number;
+    unit: WeightUnit;
+    reps: number;
+    rpe: number;
+    technicalFailure: boolean;
+    type: SetType;
+    durationMs?: number;
+    distanceM?: number;
+}
+
+export interface ImportedExercise {
+    name: string;
+    sets: ImportedSet[];
+}
+
+export interface ImportedWorkout {
+    // Stable identity of the workout in the source file: start time + name
+    key: string;
+    name: string;
+    startTime: number;
+    endTime?: number;
+    exercises: ImportedExercise[];
+}
+
+export interface ParsedHistory {
+    source: HistorySource;
+    workouts: ImportedWorkout[];
+    exerciseNames: string[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function detectSource(header: string[]): HistorySource | null {
+    const has = (name: string) => header.includes(name.toLowerCase());
+    if (has('exercise_title') && has('set_index')) return 'hevy';
+    if (has('exercise name') && has('set order')) return 'strong';
+    if (has('exercise') && has('category') && header.some(h => h.startsWith('weight'))) return 'fitnotes';
+    if (has('exercise') && has('set_number')) return 'gymtrack';
+    return null;
+}
+
+function toUnit(value: string, fallback: WeightUnit): WeightUnit {
+    return WEIGHT_UNITS.find(u => u.id === value.toLowerCase())?.id ?? fallback;
+}
+
+function toSetType(value: string, fallback: SetType): SetType {
+    return isSetType(value) ? value : fallback;
+}
+
+// Strong marks warm-up, drop and failure sets with a letter in place of the set number
+const STRONG_SET_LETTERS: Record<string, Partial<ImportedSet>> = {
+    W: { type: 'warmup' },
+    D: { type: 'drop' },
+    F: { technicalFailure: true },
+};
+
+function toNumber(value: string | undefined): number {
+    if (!value) return 0;
+    const n = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(n) ? n : 0;
+}
+
+// A row with a duration or distance is a timed set; reps are left as the file has them
+function timedFields(seconds: string, meters: number): Pick<ImportedSet, 'durationMs' | 'distanceM'> {
+    const duration = toNumber(seconds);
+    if (duration <= 0 && meters <= 0) return {};
+    return { durationMs: duration * 1000, ...(meters > 0 && { distanceM: meters }) };
+}
+
+// Accepts ISO dates, "2026-10-19 18:30:00" (Strong, FitNotes) and "19 Oct 2026, 18:30" (Hevy)
+function parseDate(value: string): number | null {
+    const text = value.trim();
+    const local = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (local) {
+        const [, y, m, d, h = '0', mi = '0', s = '0'] = local;
+        return new Date(+y, +m - 1, +d, +h, +mi, +s).getTime();
+    }
+    const hevy = text.match(/^(\d{1,2}) (\w{3}) (\d{4}),? (\d{1,2}):(\d{2})$/);
+    if (hevy) {
+        const month = MONTHS.indexOf(hevy[2].toLowerCase());
+        if (month >= 0) return new Date(+hevy[3], month, +hevy[1], +hevy[4], +hevy[5]).getTime();
+    }
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Strong writes durations as "1h 5m" or "45m"
+function parseDurationMs(value: string | undefined): number | undefined {
+    const match = value?.match(/^(?:(\d+)h)?\s*(?:(\d+)m)?$/);
+    if (!match || (!match[1] && !match[2])) return undefined;
+    return ((+(match[1] ?? 0)) * 60 + +(match[2] ?? 0)) * 60000;
+}
+
+interface FlatRow {
+    workoutName: string;
+    startTime: number;
+    endTime?: number;
+    exercise: string;
+    set: ImportedSet;
+}
+
+function readRows(source: HistorySource, header: string[], rows: string[][]): FlatRow[] {
+    const col = (row: string[], name: string) => {
+        const i = header.indexOf(name.toLowerCase());
+        return i >= 0 ? row[i]?.trim() ?? '' : '';
+    };
+    const flat: FlatRow[] = [];
+
+    for (const row of rows) {
+        if (source === 'strong') {
+            // Newer Strong exports interleave "Rest Timer" and "Note" rows
+            const setOrder = col(row, 'set order').toUpperCase();
+            if (!/^\d+$/.test(setOrder) && !STRONG_SET_LETTERS[setOrder]) continue;
+            const startTime = parseDate(col(row, 'date'));
+            if (startTime === null) continue;
+            const duration = parseDurationMs(col(row, 'duration'));
+            flat.push({
+                workoutName: col(row, 'workout name'),
+                startTime,
+                endTime: duration !== undefined ? startTime + duration : undefined,
+                exercise: col(row, 'exercise name'),
+                // Strong writes weights in the app's unit without saying which; our own
+                // Strong-layout export adds a Weight Unit column
+                set: {
+                    weight: toNumber(col(row, 'weight')),
+                    unit: toUnit(col(row, 'weight unit'), 'kg'),
+                    reps: toNumber(col(row, 'reps')),
+                    rpe: toNumber(col(row, 'rpe')),
+                    technicalFailure: false,
+                    type: toSetType(col(row, 'set type'), 'working'),
+                    ...timedFields(col(row, 'seconds'), toNumber(col(row, 'distance')) * 1000),
+                    ...STRONG_SET_LETTERS[setOrder],
+                },
+            });
+        } else if (source === 'hevy') {
+            const startTime = parseDate(col(row, 'start_time'));
+            if (startTime === null) continue;
+            // GymTrack's Hevy-layout export keeps the logged weight and unit in extra columns
+            const [weight, unit]: [number, WeightUnit] = header.includes('weight_unit')
+                ? [toNumber(col(row, 'weight')), toUnit(col(row, 'weight_unit'), 'kg')]
+                : header.includes('weight_lbs')
+                    ? [toNumber(col(row, 'weight_lbs')), 'lb']
+                    : [toNumber(col(row, 'weight_kg')), 'kg'];
+            const setType = col(row, 'set_type');
+            flat.push({
+                workoutName: col(row, 'title'),
+                startTime,
+                endTime: parseDate(col(row, 'end_time')) ?? undefined,
+                exercise: col(row, 'exercise_title'),
+                set: {
+                    weight,
+                    unit,
+                    reps: toNumber(col(row, 'reps')),
+                    rpe: toNumber(col(row, 'rpe')),
+                    technicalFailure: setType === 'failure',
+                    type: setType === 'warmup' ? 'warmup' : setType === 'dropset' ? 'drop' : 'working',
+                    ...timedFields(col(row, 'duration_seconds'), toNumber(col(row, 'distance_km')) * 1000),
+                },
+            });
+        } else if (source === 'fitnotes') {
+            // FitNotes only records the day, so each day becomes one workout
+            const startTime = parseDate(col(row, 'date'));
+            if (startTime === null) continue;
+            const weightColumn = header.find(h => h.startsWith('weight')) ?? '';
+            flat.push({
+                workoutName: 'FitNotes',
+                startTime,
+                exercise: col(row, 'exercise'),
+                set: {
+                    weight: toNumber(col(row, weightColumn)),
+                    unit: weightColumn.includes('lb') ? 'lb' : 'kg',
+                    reps: toNumber(col(row, 'reps')),
+                    rpe: 0,
+                    technicalFailure: false,
+                    type: 'working',
+                },
+            });
+        } else {
+            const startTime = parseDate(col(row, 'date'));
+            if (startTime === null) continue;
+            flat.push({
+                workoutName: col(row, 'workout'),
+                startTime,
+                exercise: col(row, 'exercise'),
+                // Files exported before units existed only have weight_kg
+                set: {
+                    weight: toNumber(col(row, header.includes('weight') ? 'weight' : 'weight_kg')),
+                    unit: toUnit(col(row, 'weight_unit'), 'kg'),
+                    reps: toNumber(col(row, 'reps')),
+                    rpe: toNumber(col(row, 'rpe')),
+                    technicalFailure: col(row, 'technical_failure') === '1',
+                    type: toSetType(col(row, 'set_type'), 'working'),
+                    ...timedFields(col(row, 'duration_seconds'), toNumber(col(row, 'distance_m'))),
+                },
+            });
+        }
+    }
+
+    return flat.filter(r => r.exercise);
+}
+
+// Parses a Strong, Hevy, FitNotes or GymTrack CSV export and groups its rows into workouts.
+// Throws with a user-facing message when the format is not recognised.
+export function parseHistoryCsv(text: string): ParsedHistory {
+    const [headerRow, ...rows] = parseCsv(text);
+    if (!headerRow) throw new Error('El archivo está vacío');
+
+    const header = headerRow.map(h => h.trim().toLowerCase());
+    const source = detectSource(header);
+    if (!source) throw new Error('Formato no reconocido: se admiten exportaciones de Strong, Hevy y FitNotes');
+
+    const workouts = new Map<string, ImportedWorkout>();
+    for (const row of readRows(source, header, rows)) {
+        const key = `${row.startTime}|${row.workoutName}`;
+        let workout = workouts.get(key);
+        if (!workout) {
+            workout = { key, name: row.workoutName || 'Importado', startTime: row.startTime, endTime: row.endTime, exercises: [] };
+            workouts.set(key, workout);
+        }
+        // Consecutive rows of the same exercise form one block; a repeat later on starts a new one
+        let exercise = workout.exercises[workout.exercises.length - 1];
+        if (!exercise || exercise.name !== row.exercise) {
+            exercise = { name: row.exercise, sets: [] };
+            workout.exercises.push(exercise);
+        }
+        exercise.sets.push(row.set);
+    }
+
+    const sorted = [...workouts.values()].sort((a, b) => a.startTime - b.startTime);
+    const exerciseNames = [...new Set(sorted.flatMap(w => w.exercises.map(e => e.name)))].sort();
+    return { source, workouts: sorted, exerciseNames };
+}
+
+function normalizeName(name: string) {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function levenshtein(a: string, b: string) {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// 0..1, the better of edit-distance similarity and word overlap, so that both typos
+// ("Bench Pres") and reordered words ("Press Bench (Barbell)") score high
+export function nameSimilarity(a: string, b: string): number {
+    const na = normalizeName(a);
+    const nb = normalizeName(b);
+    if (!na || !nb) return 0;
+    if (na === nb) return 1;
+
+    const edit = 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+    const wordsA = new Set(na.split(' '));
+    const wordsB = new Set(nb.split(' '));
+    const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+    const overlap = shared / Math.max(wordsA.size, wordsB.size);
+    return Math.max(edit, overlap);
+}
+
+export const MATCH_THRESHOLD = 0.75;
+
+export function findBestMatch(name: string, exercises: Exercise[]): { exercise: Exercise; score: number } | null {
+    let best: { exercise: Exercise; score: number } | null = null;
+    for (const exercise of exercises) {
+        const score = nameSimilarity(name, exercise.name);
+        if (!best || score > best.score) best = { exercise, score };
+    }
+    return best;
+}
+
+// 32-bit FNV-1a, enough to give each imported workout a stable id
+function hash(text: string) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(36);
+}
+
+export function importedSessionId(source: HistorySource, workout: ImportedWorkout) {
+    return `import-${source}-${hash(workout.key)}`;
+}
+
+// Builds completed sessions from the parsed file. `exerciseIds` maps every imported
+// exercise name to the library exercise it was matched with or created as.
+export function buildImportedSessions(parsed: ParsedHistory, exerciseIds: Record<string, string>): Session[] {
+    return parsed.workouts.map(workout => ({
+        id: importedSessionId(parsed.source, workout),
+        templateId: '',
+        templateName: workout.name,
+        startTime: workout.startTime,
+        endTime: workout.endTime,
+        completed: true,
+        importSource: parsed.source,
+        exercises: workout.exercises.map(exercise => ({
+            exerciseId: exerciseIds[exercise.name],
+            sets: linkSets(exercise.sets.map((set, i): SetData => ({
+                setNumber: i + 1,
+                weight: Math.round(set.weight * 100) / 100,
+                unit: set.unit,
+                reps: set.reps,
+                rpe: set.rpe,
+                technicalFailure: set.technicalFailure,
+                type: set.type,
+                durationMs: set.durationMs,
+                distanceM: set.distanceM,
+                tutMs: 0,
+                restMs: 0,
+                startTime: workout.startTime,
+                endTime: workout.startTime,
+            }))),
+        })),
+    }));
+}
@@ -1,4 +1,12 @@
 import { useCallback, useRef } from 'react'
+import type { TempoPhase } from '../tempo'
+
+const PHASE_FREQUENCIES: Record<TempoPhase, number> = {
+    eccentric: 440,
+    pause: 520,
+    concentric: 880,
+    top: 660,
+}
 
 export function useAudioFeedback() {
     const audioContextRef = useRef<AudioContext | null>(null)
@@ -46,5 +54,15 @@ export function useAudioFeedback() {
         setTimeout(() => playBeep(1000, 200), 150)
     }, [playBeep])
 
-    return { playBeep, playCountdownBeep, playFinalBeep }
+    // Metronome: each tempo phase has its own pitch, lowering for the eccentric and rising for
+    // the concentric, and a new rep starts with a longer, higher tone
+    const playPhaseCue = useCallback((phase: TempoPhase) => {
+        playBeep(PHASE_FREQUENCIES[phase], 80)
+    }, [playBeep])
+
+    const playRepCue = useCallback(() => {
+        playBeep(1200, 180)
+    }, [playBeep])
+
+    return { playBeep, playCountdownBeep, playFinalBeep, playPhaseCue, playRepCue }
 }
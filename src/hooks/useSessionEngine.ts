@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react'
+import type { SessionEngine, Timer } from '../sessionEngine'
+
+// Re-renders when the timer changes state, not on every tick
+export function useTimer(engine: SessionEngine): Timer {
+    return useSyncExternalStore(engine.subscribe, engine.getTimer)
+}
+
+// Re-renders when `select` gives something new, so it must return a primitive: a readout of
+// whole seconds renders once a second however often the engine ticks
+export function useClock<T>(engine: SessionEngine, select: (timer: Timer, now: number) => T): T {
+    return useSyncExternalStore(engine.subscribeClock, () => select(engine.getTimer(), engine.getNow()))
+}
@@ -0,0 +1,325 @@
+import {
+    generateId,
+    type Exercise,
+    type LibraryData,
+    type MuscleGroup,
+    type WorkoutTemplate
+} from './db';
+import { WEIGHT_UNITS } from './units';
+import { GROUP_TYPE_LABELS, normalizeGroups } from './exerciseGroups';
+import { isSetType } from './setTypes';
+import { PROGRESSION_RULE_LABELS } from './progression';
+import { EXERCISE_MODES } from './timedSets';
+import { isTempo } from './tempo';
+
+export interface ImportIssue {
+    path: string;
+    message: string;
+}
+
+export type LibraryValidation =
+    | { ok: true; data: LibraryData }
+    | { ok: false; issues: ImportIssue[] };
+
+export type ImportItemKind = 'muscleGroup' | 'exercise' | 'template';
+
+// new: unknown id and name; identical: same id and content; changed: same id, different
+// content; conflict: different id but an existing item already has the same name
+export type ImportStatus = 'new' | 'identical' | 'changed' | 'conflict';
+
+// keep: leave the local copy (or skip a new item); incoming: write the imported record
+// under its own id; copy: write it under a fresh id next to the local one
+export type ImportResolution = 'keep' | 'incoming' | 'copy';
+
+type LibraryItem = MuscleGroup | Exercise | WorkoutTemplate;
+
+export interface ImportItem {
+    key: string;
+    kind: ImportItemKind;
+    status: ImportStatus;
+    incoming: LibraryItem;
+    local?: LibraryItem;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isInteger(value: unknown, min: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+// Checks the import format field by field. References may point at items in the file or
+// at items that already exist locally. A backup may hold templates a cascade left without
+// exercises, which an export to share should not.
+export function validateLibraryExport(raw: unknown, local: LibraryData, { allowEmptyTemplates = false } = {}): LibraryValidation {
+    const issues: ImportIssue[] = [];
+    const issue = (path: string, message: string) => issues.push({ path, message });
+
+    if (!isRecord(raw)) {
+        return { ok: false, issues: [{ path: '', message: 'se esperaba un objeto JSON' }] };
+    }
+    for (const key of ['muscleGroups', 'exercises', 'templates'] as const) {
+        if (!Array.isArray(raw[key])) issue(key, 'debe ser una lista');
+    }
+    if (issues.length > 0) return { ok: false, issues };
+
+    const groups = raw.muscleGroups as unknown[];
+    const exercises = raw.exercises as unknown[];
+    const templates = raw.templates as unknown[];
+
+    const checkIdentity = (path: string, item: Record<string, unknown>, seen: Set<string>) => {
+        if (!isNonEmptyString(item.id)) {
+            issue(`${path}.id`, 'falta o está vacío');
+        } else if (seen.has(item.id)) {
+            issue(`${path}.id`, `id duplicado "${item.id}"`);
+        } else {
+            seen.add(item.id);
+        }
+        if (!isNonEmptyString(item.name)) issue(`${path}.name`, 'falta o está vacío');
+    };
+
+    const groupIds = new Set<string>();
+    groups.forEach((group, i) => {
+        if (!isRecord(group)) return issue(`muscleGroups[${i}]`, 'debe ser un objeto');
+        checkIdentity(`muscleGroups[${i}]`, group, groupIds);
+    });
+
+    const exerciseIds = new Set<string>();
+    const knownGroups = new Set([...groupIds, ...local.muscleGroups.map(g => g.id)]);
+    exercises.forEach((exercise, i) => {
+        const path = `exercises[${i}]`;
+        if (!isRecord(exercise)) return issue(path, 'debe ser un objeto');
+        checkIdentity(path, exercise, exerciseIds);
+        if (exercise.weightUnit !== undefined && !WEIGHT_UNITS.some(u => u.id === exercise.weightUnit)) {
+            issue(`${path}.weightUnit`, 'debe ser kg, lb o plate');
+        }
+        if (exercise.mode !== undefined && !EXERCISE_MODES.some(m => m.id === exercise.mode)) {
+            issue(`${path}.mode`, 'debe ser reps o timed');
+        }
+        if (exercise.tracksDistance !== undefined && typeof exercise.tracksDistance !== 'boolean') {
+            issue(`${path}.tracksDistance`, 'debe ser true o false');
+        }
+        if (exercise.progression !== undefined) {
+            const rule = exercise.progression;
+            if (!isRecord(rule) || typeof rule.type !== 'string' || !(rule.type in PROGRESSION_RULE_LABELS)) {
+                issue(`${path}.progression.type`, 'debe ser doubleProgression, linear o rpeTarget');
+            } else {
+                const fields = ['increment', 'deloadAfterFailures', 'deloadPercent',
+                    ...(rule.type === 'doubleProgression' ? ['minReps', 'maxReps'] : rule.type === 'rpeTarget' ? ['targetRpe'] : [])];
+                for (const field of fields) {
+                    if (typeof rule[field] !== 'number' || (rule[field] as number) < 0) {
+                        issue(`${path}.progression.${field}`, 'debe ser un número ≥ 0');
+                    }
+                }
+            }
+        }
+        if (!Array.isArray(exercise.muscleGroupIds)) {
+            return issue(`${path}.muscleGroupIds`, 'debe ser una lista');
+        }
+        exercise.muscleGroupIds.forEach((groupId, j) => {
+            if (typeof groupId !== 'string') {
+                issue(`${path}.muscleGroupIds[${j}]`, 'debe ser un id');
+            } else if (!knownGroups.has(groupId)) {
+                issue(`${path}.muscleGroupIds[${j}]`, `grupo muscular desconocido "${groupId}"`);
+            }
+        });
+    });
+
+    const templateIds = new Set<string>();
+    const knownExercises = new Set([...exerciseIds, ...local.exercises.map(e => e.id)]);
+    templates.forEach((template, i) => {
+        const path = `templates[${i}]`;
+        if (!isRecord(template)) return issue(path, 'debe ser un objeto');
+        checkIdentity(path, template, templateIds);
+        if (!Array.isArray(template.exercises) || (template.exercises.length === 0 && !allowEmptyTemplates)) {
+            return issue(`${path}.exercises`, 'debe ser una lista con al menos un ejercicio');
+        }
+        const exerciseGroupIds = new Set<string>();
+        if (template.groups !== undefined) {
+            if (!Array.isArray(template.groups)) return issue(`${path}.groups`, 'debe ser una lista');
+            template.groups.forEach((group, j) => {
+                const groupPath = `${path}.groups[${j}]`;
+                if (!isRecord(group) || typeof group.id !== 'string') return issue(groupPath, 'debe tener un id');
+                exerciseGroupIds.add(group.id);
+                if (typeof group.type !== 'string' || !(group.type in GROUP_TYPE_LABELS)) {
+                    issue(`${groupPath}.type`, 'debe ser superset, giantSet o circuit');
+                }
+                if (typeof group.restAfterRoundSeconds !== 'number' || group.restAfterRoundSeconds < 0) {
+                    issue(`${groupPath}.restAfterRoundSeconds`, 'debe ser un número ≥ 0');
+                }
+            });
+        }
+        template.exercises.forEach((te, j) => {
+            const tePath = `${path}.exercises[${j}]`;
+            if (!isRecord(te)) return issue(tePath, 'debe ser un objeto');
+            if (typeof te.exerciseId !== 'string' || !knownExercises.has(te.exerciseId)) {
+                issue(`${tePath}.exerciseId`, `ejercicio desconocido "${String(te.exerciseId)}"`);
+            }
+            if (!isInteger(te.sets, 1)) issue(`${tePath}.sets`, 'debe ser un entero ≥ 1');
+            if (!isInteger(te.targetReps, 1)) issue(`${tePath}.targetReps`, 'debe ser un entero ≥ 1');
+            if (typeof te.restSeconds !== 'number' || te.restSeconds < 0) {
+                issue(`${tePath}.restSeconds`, 'debe ser un número ≥ 0');
+            }
+            if (te.tempo !== undefined && !isTempo(te.tempo)) {
+                issue(`${tePath}.tempo`, 'debe tener eccentric, pause, concentric y top entre 0 y 10 s');
+            }
+            if (te.targetSeconds !== undefined && !isInteger(te.targetSeconds, 1)) {
+                issue(`${tePath}.targetSeconds`, 'debe ser un entero ≥ 1');
+            }
+            if (te.setTypes !== undefined && (!Array.isArray(te.setTypes) || !te.setTypes.every(isSetType))) {
+                issue(`${tePath}.setTypes`, 'debe ser una lista de tipos de serie');
+            }
+            if (te.setPrescriptions !== undefined) {
+                if (!Array.isArray(te.setPrescriptions)) {
+                    issue(`${tePath}.setPrescriptions`, 'debe ser una lista');
+                } else {
+                    te.setPrescriptions.forEach((set, k) => checkSetPrescription(`${tePath}.setPrescriptions[${k}]`, set, issue));
+                }
+            }
+            if (te.groupId !== undefined && (typeof te.groupId !== 'string' || !exerciseGroupIds.has(te.groupId))) {
+                issue(`${tePath}.groupId`, `grupo de ejercicios desconocido "${String(te.groupId)}"`);
+            }
+        });
+    });
+
+    if (issues.length > 0) return { ok: false, issues };
+    return { ok: true, data: raw as unknown as LibraryData };
+}
+
+function checkSetPrescription(path: string, set: unknown, issue: (path: string, message: string) => void) {
+    if (!isRecord(set)) return issue(path, 'debe ser un objeto');
+    if (!isInteger(set.minReps, 1)) issue(`${path}.minReps`, 'debe ser un entero ≥ 1');
+    if (!isInteger(set.maxReps, 1) || (typeof set.minReps === 'number' && set.maxReps < set.minReps)) {
+        issue(`${path}.maxReps`, 'debe ser un entero ≥ minReps');
+    }
+    if (set.effort !== undefined) {
+        const effort = set.effort;
+        if (!isRecord(effort) || (effort.type !== 'rpe' && effort.type !== 'rir') || typeof effort.value !== 'number') {
+            issue(`${path}.effort`, 'debe ser { type: rpe | rir, value }');
+        }
+    }
+    if (set.load !== undefined) {
+        const load = set.load;
+        const valid = isRecord(load) && (
+            (load.type === 'absolute' && typeof load.weight === 'number' && WEIGHT_UNITS.some(u => u.id === load.unit))
+            || (load.type === 'percent1RM' && typeof load.percent === 'number')
+        );
+        if (!valid) issue(`${path}.load`, 'debe ser { type: absolute, weight, unit } o { type: percent1RM, percent }');
+    }
+}
+
+function normalizeName(name: string) {
+    return name.trim().toLocaleLowerCase('es');
+}
+
+function sameContent(a: LibraryItem, b: LibraryItem) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffItems<T extends LibraryItem>(kind: ImportItemKind, incoming: T[], local: T[]): ImportItem[] {
+    const byId = new Map(local.map(item => [item.id, item]));
+    const byName = new Map(local.map(item => [normalizeName(item.name), item]));
+
+    return incoming.map(item => {
+        const key = `${kind}:${item.id}`;
+        const sameId = byId.get(item.id);
+        if (sameId) {
+            return { key, kind, incoming: item, local: sameId, status: sameContent(item, sameId) ? 'identical' : 'changed' };
+        }
+        const sameName = byName.get(normalizeName(item.name));
+        if (sameName) {
+            return { key, kind, incoming: item, local: sameName, status: 'conflict' };
+        }
+        return { key, kind, incoming: item, status: 'new' };
+    });
+}
+
+export function diffLibrary(incoming: LibraryData, local: LibraryData): ImportItem[] {
+    return [
+        ...diffItems('muscleGroup', incoming.muscleGroups, local.muscleGroups),
+        ...diffItems('exercise', incoming.exercises, local.exercises),
+        ...diffItems('template', incoming.templates, local.templates),
+    ];
+}
+
+export function defaultResolution(status: ImportStatus): ImportResolution {
+    return status === 'new' || status === 'changed' ? 'incoming' : 'keep';
+}
+
+// Where each incoming id ends up: the local item when a conflict is kept, a new id when
+// imported as a copy, null when a new item is skipped
+function resolveIds(items: ImportItem[], resolutions: Record<string, ImportResolution>): Map<string, string | null> {
+    const idMap = new Map<string, string | null>();
+    for (const item of items) {
+        const resolution = resolutions[item.key] ?? defaultResolution(item.status);
+        const id = item.incoming.id;
+        if (resolution === 'copy') {
+            idMap.set(id, generateId());
+        } else if (resolution === 'keep') {
+            idMap.set(id, item.local ? item.local.id : null);
+        } else {
+            idMap.set(id, id);
+        }
+    }
+    return idMap;
+}
+
+// Keys of the templates to import that would be left without exercises, every one of them
+// a new exercise that is skipped. buildImportPlan leaves them out.
+export function emptiedTemplates(items: ImportItem[], resolutions: Record<string, ImportResolution>): string[] {
+    const idMap = resolveIds(items, resolutions);
+    return items
+        .filter(item => item.kind === 'template' && (resolutions[item.key] ?? defaultResolution(item.status)) !== 'keep')
+        .filter(item => {
+            const { exercises } = item.incoming as WorkoutTemplate;
+            return exercises.length > 0 && exercises.every(te => idMap.get(te.exerciseId) === null);
+        })
+        .map(item => item.key);
+}
+
+// Turns the reviewed diff into the records to write. Ids are remapped so imported
+// exercises and templates follow their dependencies (see resolveIds); a template whose
+// exercises are all skipped is not imported.
+export function buildImportPlan(items: ImportItem[], resolutions: Record<string, ImportResolution>): LibraryData {
+    const idMap = resolveIds(items, resolutions);
+    const remap = (id: string) => idMap.has(id) ? idMap.get(id) ?? null : id;
+    const plan: LibraryData = { muscleGroups: [], exercises: [], templates: [] };
+
+    for (const item of items) {
+        const resolution = resolutions[item.key] ?? defaultResolution(item.status);
+        if (resolution === 'keep') continue;
+
+        const id = idMap.get(item.incoming.id)!;
+        const name = resolution === 'copy' && item.local ? `${item.incoming.name} (copia)` : item.incoming.name;
+
+        if (item.kind === 'muscleGroup') {
+            plan.muscleGroups.push({ ...(item.incoming as MuscleGroup), id, name });
+        } else if (item.kind === 'exercise') {
+            const exercise = item.incoming as Exercise;
+            const muscleGroupIds = exercise.muscleGroupIds.map(remap).filter((g): g is string => g !== null);
+            plan.exercises.push({ ...exercise, id, name, muscleGroupIds: [...new Set(muscleGroupIds)] });
+        } else {
+            const template = item.incoming as WorkoutTemplate;
+            const exercises = template.exercises
+                .map(te => ({ ...te, exerciseId: remap(te.exerciseId) }))
+                .filter((te): te is typeof te & { exerciseId: string } => te.exerciseId !== null);
+            if (exercises.length === 0 && template.exercises.length > 0) continue;
+            // Dropping exercises can leave a superset with a single member
+            const grouped = normalizeGroups({ exercises, groups: template.groups ?? [] });
+            plan.templates.push({
+                ...template,
+                id,
+                name,
+                exercises: grouped.exercises,
+                groups: grouped.groups.length > 0 ? grouped.groups : undefined
+            });
+        }
+    }
+
+    return plan;
+}
@@ -0,0 +1,177 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames, StoreValue } from 'idb';
+import type { GymTrackDB } from './db';
+
+export type UpgradeTransaction = IDBPTransaction<GymTrackDB, StoreNames<GymTrackDB>[], 'versionchange'>;
+
+// A single schema step. `migrate` runs inside the versionchange transaction, so it
+// must only await requests made on that transaction (no fetch, no timers): awaiting
+// anything else lets the transaction auto-commit halfway through.
+export interface Migration {
+    version: number;
+    description: string;
+    migrate(database: IDBPDatabase<GymTrackDB>, transaction: UpgradeTransaction): Promise<void> | void;
+}
+
+export interface AppliedMigration {
+    version: number;
+    description: string;
+    appliedAt: number;
+}
+
+export interface SchemaInfo {
+    key: 'schema';
+    version: number;
+    updatedAt: number;
+    history: AppliedMigration[];
+}
+
+export class MigrationError extends Error {
+    readonly fromVersion: number;
+    readonly failedVersion: number;
+
+    constructor(fromVersion: number, failedVersion: number, cause: unknown) {
+        const reason = cause instanceof Error ? cause.message : String(cause);
+        super(`Migration to v${failedVersion} failed (from v${fromVersion}): ${reason}`, { cause });
+        this.name = 'MigrationError';
+        this.fromVersion = fromVersion;
+        this.failedVersion = failedVersion;
+    }
+}
+
+// Ordered list of every schema change. Never edit a released migration: append a
+// new one instead, since devices in the wild may be sitting on any version.
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Create base stores',
+        migrate(database) {
+            if (!database.objectStoreNames.contains('muscleGroups')) {
+                database.createObjectStore('muscleGroups', { keyPath: 'id' });
+            }
+            if (!database.objectStoreNames.contains('exercises')) {
+                database.createObjectStore('exercises', { keyPath: 'id' });
+            }
+            if (!database.objectStoreNames.contains('templates')) {
+                database.createObjectStore('templates', { keyPath: 'id' });
+            }
+            if (!database.objectStoreNames.contains('sessions')) {
+                database.createObjectStore('sessions', { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 2,
+        description: 'Add meta store to record the schema version',
+        migrate(database) {
+            database.createObjectStore('meta', { keyPath: 'key' });
+        },
+    },
+    {
+        version: 3,
+        description: 'Index sessions by start time, completion and template',
+        async migrate(_database, transaction) {
+            const sessions = transaction.objectStore('sessions');
+            sessions.createIndex('startTime', 'startTime');
+            sessions.createIndex('completed', ['completedKey', 'startTime']);
+            sessions.createIndex('templateId', ['templateId', 'startTime']);
+
+            // Booleans are not valid IndexedDB keys, so completion is mirrored as 0/1
+            await transformRecords(transaction, 'sessions', session => ({
+                ...session,
+                completedKey: session.completed ? 1 : 0,
+            }));
+        },
+    },
+    {
+        version: 4,
+        description: 'Derive per-exercise set history from sessions',
+        async migrate(database, transaction) {
+            const store = database.createObjectStore('exerciseSets', { keyPath: 'id' });
+            store.createIndex('exerciseId', ['exerciseId', 'sessionStartTime', 'order']);
+            store.createIndex('sessionId', 'sessionId');
+
+            const sessions = await transaction.objectStore('sessions').getAll();
+            for (const session of sessions) {
+                for (const [exerciseIndex, exercise] of session.exercises.entries()) {
+                    for (const [setIndex, set] of exercise.sets.entries()) {
+                        await store.put({
+                            id: `${session.id}:${exerciseIndex}:${setIndex}`,
+                            sessionId: session.id,
+                            exerciseId: exercise.exerciseId,
+                            sessionStartTime: session.startTime,
+                            templateId: session.templateId,
+                            templateName: session.templateName,
+                            sessionCompleted: session.completed,
+                            order: exerciseIndex * 1000 + setIndex,
+                            set,
+                        });
+                    }
+                }
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Add trash store for soft-deleted records',
+        migrate(database) {
+            const store = database.createObjectStore('trash', { keyPath: 'id' });
+            store.createIndex('deletedAt', 'deletedAt');
+        },
+    },
+    {
+        version: 6,
+        description: 'Add progression store for per-exercise targets',
+        migrate(database) {
+            database.createObjectStore('progression', { keyPath: 'exerciseId' });
+        },
+    },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+// Rewrites every record of a store in place. Returning undefined leaves the record untouched.
+export async function transformRecords<Name extends StoreNames<GymTrackDB>>(
+    transaction: UpgradeTransaction,
+    storeName: Name,
+    transform: (record: StoreValue<GymTrackDB, Name>) => StoreValue<GymTrackDB, Name> | undefined
+): Promise<void> {
+    let cursor = await transaction.objectStore(storeName).openCursor();
+    while (cursor) {
+        const updated = transform(cursor.value);
+        if (updated !== undefined) {
+            await cursor.update(updated);
+        }
+        cursor = await cursor.continue();
+    }
+}
+
+// Runs every migration newer than `oldVersion` in order. Any failure is rethrown as a
+// MigrationError; the caller aborts the upgrade transaction so nothing is half-applied.
+export async function runMigrations(
+    database: IDBPDatabase<GymTrackDB>,
+    transaction: UpgradeTransaction,
+    oldVersion: number
+): Promise<void> {
+    const applied: AppliedMigration[] = [];
+
+    for (const migration of migrations) {
+        if (migration.version <= oldVersion) continue;
+        try {
+            await migration.migrate(database, transaction);
+        } catch (err) {
+            throw new MigrationError(oldVersion, migration.version, err);
+        }
+        applied.push({ version: migration.version, description: migration.description, appliedAt: Date.now() });
+    }
+
+    if (applied.length === 0) return;
+
+    const meta = transaction.objectStore('meta');
+    const previous = await meta.get('schema');
+    await meta.put({
+        key: 'schema',
+        version: applied[applied.length - 1].version,
+        updatedAt: Date.now(),
+        history: [...(previous?.history ?? []), ...applied],
+    });
+}
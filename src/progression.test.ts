@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { ProgressionState, SetData } from './db';
+import { DEFAULT_PROGRESSION_RULES, nextTarget } from './progression';
+
+const linear = DEFAULT_PROGRESSION_RULES.linear;
+const prescription = { sets: 3, targetReps: 5, restSeconds: 180 };
+
+function workingSet(weight: number, reps = 5): SetData {
+    return {
+        setNumber: 1,
+        weight,
+        unit: 'kg',
+        reps,
+        rpe: 8,
+        technicalFailure: false,
+        type: 'working',
+        tutMs: 20000,
+        restMs: 180000,
+        startTime: 0,
+        endTime: 0,
+    };
+}
+
+const previous: ProgressionState = {
+    exerciseId: 'squat',
+    weight: 100,
+    unit: 'kg',
+    reps: 5,
+    failures: 0,
+    sessionId: 'session-0',
+    updatedAt: 0,
+};
+
+function next(sets: SetData[]) {
+    return nextTarget(linear, previous, 'squat', sets, prescription, 'kg', 'session-1', 0);
+}
+
+describe('next target', () => {
+    it('adds load once every rep is done at the target', () => {
+        expect(next([workingSet(100), workingSet(100), workingSet(100)])).toMatchObject({ weight: 102.5, failures: 0 });
+    });
+
+    it('builds on the load lifted when it was below the target', () => {
+        expect(next([workingSet(80), workingSet(80), workingSet(80)])).toMatchObject({ weight: 82.5, reps: 5 });
+    });
+
+    it('judges only the sets done at the target load', () => {
+        expect(next([workingSet(100, 3), workingSet(80), workingSet(80)])).toMatchObject({ weight: 100, failures: 1 });
+    });
+});
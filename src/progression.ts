@@ -0,0 +1,153 @@
+import type { Exercise, ExercisePrescription, ProgressionRule, ProgressionState, Session, SetData } from './db';
+import { convertWeight, exerciseUnit, setUnit, type WeightUnit } from './units';
+import { matchesSetTypes, type SetType } from './setTypes';
+import { prescriptionOf } from './sessionFlow';
+import { isTimedExercise } from './timedSets';
+
+// After each completed session every exercise with a progression rule gets its next target:
+// one load and rep count for all of its working sets. A session where the target was missed
+// counts as a failure; after `deloadAfterFailures` failures in a row the load drops by
+// `deloadPercent` and the count starts over.
+
+export type ProgressionRuleType = ProgressionRule['type'];
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRuleType, string> = {
+    doubleProgression: 'Doble progresión',
+    linear: 'Lineal',
+    rpeTarget: 'Por RPE objetivo',
+};
+
+export const DEFAULT_PROGRESSION_RULES: Record<ProgressionRuleType, ProgressionRule> = {
+    doubleProgression: { type: 'doubleProgression', minReps: 8, maxReps: 12, increment: 2.5, deloadAfterFailures: 3, deloadPercent: 10 },
+    linear: { type: 'linear', increment: 2.5, deloadAfterFailures: 3, deloadPercent: 10 },
+    rpeTarget: { type: 'rpeTarget', targetRpe: 8, increment: 2.5, deloadAfterFailures: 3, deloadPercent: 10 },
+};
+
+// Warm-ups, drops, rest-pause and back-off sets never move the target
+const TARGET_SET_TYPES: SetType[] = ['working', 'amrap'];
+
+interface Outcome {
+    weight: number;
+    reps: number;
+    failed: boolean;
+}
+
+function roundLoad(weight: number, increment: number) {
+    const step = increment > 0 ? increment : 1;
+    return Math.max(0, Math.round(weight / step) * step);
+}
+
+function evaluate(rule: ProgressionRule, weight: number, targetReps: number, sets: SetData[]): Outcome {
+    const reps = sets.map(set => set.reps);
+    const lowest = Math.min(...reps);
+
+    if (rule.type === 'doubleProgression') {
+        if (lowest >= rule.maxReps) return { weight: weight + rule.increment, reps: rule.minReps, failed: false };
+        if (lowest < rule.minReps) return { weight, reps: Math.max(targetReps, rule.minReps), failed: true };
+        return { weight, reps: Math.min(Math.max(lowest + 1, targetReps), rule.maxReps), failed: false };
+    }
+
+    const missed = lowest < targetReps || sets.some(set => set.technicalFailure);
+    if (rule.type === 'linear') {
+        return { weight: missed ? weight : weight + rule.increment, reps: targetReps, failed: missed };
+    }
+
+    // RPE auto-regulation: a full point under the target adds load, a full point over takes it off
+    const rpes = sets.map(set => set.rpe).filter(rpe => rpe > 0);
+    const topRpe = rpes.length > 0 ? Math.max(...rpes) : rule.targetRpe;
+    const change = topRpe <= rule.targetRpe - 1 ? rule.increment : topRpe >= rule.targetRpe + 1 ? -rule.increment : 0;
+    return { weight: weight + change, reps: targetReps, failed: missed };
+}
+
+// Next target for one exercise of a completed session, or null when the session has no working
+// sets for it (skipped, or only warm-ups) and the previous target stands
+export function nextTarget(
+    rule: ProgressionRule,
+    previous: ProgressionState | undefined,
+    exerciseId: string,
+    sets: SetData[],
+    prescription: ExercisePrescription,
+    unit: WeightUnit,
+    sessionId: string,
+    now = Date.now()
+): ProgressionState | null {
+    const working = sets.filter(set => matchesSetTypes(set, TARGET_SET_TYPES));
+    if (working.length === 0) return null;
+
+    const loads = working.map(set => convertWeight(set.weight, setUnit(set), unit) ?? set.weight);
+    const previousWeight = previous && (convertWeight(previous.weight, previous.unit, unit) ?? previous.weight);
+    // Only sets done at the target load (within half an increment, for unit rounding) tell
+    // whether it was met. When none was, the next target builds on the heaviest load lifted.
+    const reached = (weight: number) => working.filter((_, i) => loads[i] >= weight - rule.increment / 2);
+    const atTarget = previousWeight === undefined ? working : reached(previousWeight);
+    const weight = previousWeight !== undefined && atTarget.length > 0 ? previousWeight : Math.max(...loads);
+    const targetReps = previous?.reps ?? prescription.targetReps;
+
+    const outcome = evaluate(rule, weight, targetReps, atTarget.length > 0 ? atTarget : reached(weight));
+    let failures = outcome.failed ? (previous?.failures ?? 0) + 1 : 0;
+    let nextWeight = outcome.weight;
+    if (failures >= rule.deloadAfterFailures) {
+        nextWeight = weight * (1 - rule.deloadPercent / 100);
+        failures = 0;
+    }
+
+    return {
+        exerciseId,
+        weight: roundLoad(nextWeight, rule.increment),
+        unit,
+        reps: outcome.reps,
+        failures,
+        sessionId,
+        updatedAt: now,
+    };
+}
+
+// New targets for every exercise of the session that follows a rule. An exercise done more
+// than once in the session (e.g. after a swap) is judged on all of its sets together. Timed
+// exercises have no reps to progress and are left out.
+export function progressSession(
+    session: Session,
+    exercises: Exercise[],
+    states: ProgressionState[],
+    unitPreference: WeightUnit
+): ProgressionState[] {
+    const updates: ProgressionState[] = [];
+    const exerciseIds = [...new Set(session.exercises.map(ex => ex.exerciseId))];
+
+    for (const exerciseId of exerciseIds) {
+        const exercise = exercises.find(e => e.id === exerciseId);
+        if (!exercise?.progression || isTimedExercise(exercise)) continue;
+        const entries = session.exercises.filter(ex => ex.exerciseId === exerciseId);
+        const next = nextTarget(
+            exercise.progression,
+            states.find(s => s.exerciseId === exerciseId),
+            exerciseId,
+            entries.flatMap(ex => ex.sets),
+            prescriptionOf(entries[0]),
+            exerciseUnit(exercise, unitPreference),
+            session.id
+        );
+        if (next) updates.push(next);
+    }
+    return updates;
+}
+
+// Targets as they stand after the given completed sessions, replayed oldest first from no
+// target at all. Only exercises in `exercises` get one.
+export function replayProgression(
+    sessions: Session[],
+    exercises: Exercise[],
+    unitPreference: WeightUnit
+): ProgressionState[] {
+    let states: ProgressionState[] = [];
+    for (const session of [...sessions].sort((a, b) => a.startTime - b.startTime)) {
+        const updates = progressSession(session, exercises, states, unitPreference);
+        states = [...states.filter(s => !updates.some(u => u.exerciseId === s.exerciseId)), ...updates];
+    }
+    return states;
+}
+
+// Whether the target applies to a planned set: only working and AMRAP sets follow it
+export function targetAppliesTo(type: SetType): boolean {
+    return TARGET_SET_TYPES.includes(type);
+}
@@ -0,0 +1,31 @@
+import { db, type Session, type TrashEntry } from './db';
+import { replayProgression } from './progression';
+import { getWeightUnitPreference } from './units';
+
+// finishSession moves targets on one session at a time. A change to a session already in the
+// history (a correction, a delete or a restore) replays the history of the exercises involved
+// instead, so their targets and failure counts match it again.
+
+export function exerciseIdsOf(sessions: Session[]): string[] {
+    return [...new Set(sessions.flatMap(session => session.exercises.map(ex => ex.exerciseId)))];
+}
+
+// Exercises whose history a trash entry changes: those of the session it puts back, or the
+// deleted exercise and those its sets had been reassigned to
+export function trashedExerciseIds(entry: TrashEntry): string[] {
+    if (entry.kind === 'session') return exerciseIdsOf([entry.record]);
+    if (entry.kind !== 'exercise') return [];
+    const targets = entry.related.flatMap(change =>
+        change.store === 'sessions' && change.targetId !== undefined ? [change.targetId] : []);
+    return [...new Set([entry.record.id, ...targets])];
+}
+
+export async function recomputeProgression(exerciseIds: string[]): Promise<void> {
+    if (exerciseIds.length === 0) return;
+    const [exercises, history] = await Promise.all([
+        db.getAllExercises(),
+        db.querySessions({ completed: true, order: 'oldest' }),
+    ]);
+    const involved = exercises.filter(e => exerciseIds.includes(e.id));
+    await db.replaceProgression(exerciseIds, replayProgression(history.sessions, involved, getWeightUnitPreference()));
+}
@@ -0,0 +1,43 @@
+import type { RestAction, RestActionMessage, ScheduleRestMessage, WorkerMessage } from './restTimerMessages';
+
+// The page asks the service worker (src/sw.ts) to show a notification when a rest ends, so
+// the alert arrives with the phone locked or another app in front. Nothing happens where
+// service workers or notifications are unavailable, e.g. in development.
+
+function supported() {
+    return 'serviceWorker' in navigator && 'Notification' in window;
+}
+
+function postToWorker(message: WorkerMessage) {
+    if (!supported()) return;
+    navigator.serviceWorker.ready
+        .then(registration => registration.active?.postMessage(message))
+        .catch(err => console.log('Rest notification error:', err));
+}
+
+// Asks once, from a tap, since browsers only prompt in response to one
+export function requestRestNotifications() {
+    if (supported() && Notification.permission === 'default') {
+        Notification.requestPermission().catch(err => console.log('Notification permission error:', err));
+    }
+}
+
+export function scheduleRestNotification(rest: Omit<ScheduleRestMessage, 'type'>) {
+    if (!supported() || Notification.permission !== 'granted') return;
+    postToWorker({ type: 'SCHEDULE_REST', ...rest });
+}
+
+export function cancelRestNotification() {
+    postToWorker({ type: 'CANCEL_REST' });
+}
+
+// Calls `handler` when a notification action is tapped; returns the unsubscribe function
+export function onRestAction(handler: (action: RestAction, sessionId: string) => void): () => void {
+    if (!supported()) return () => {};
+    const listener = (event: MessageEvent) => {
+        const message = event.data as RestActionMessage | undefined;
+        if (message?.type === 'REST_ACTION') handler(message.action, message.sessionId);
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
@@ -0,0 +1,36 @@
+// Messages between the session page and the service worker about the rest timer. Kept apart
+// from both so the worker bundle does not pull in page code.
+
+export const REST_NOTIFICATION_TAG = 'gymtrack-rest';
+
+// What the notification's action button does once the session is back on screen
+export type RestAction = 'next';
+
+export interface ScheduleRestMessage {
+    type: 'SCHEDULE_REST';
+    sessionId: string;
+    endsAt: number;
+    title: string;
+    body: string;
+    // Page to open or focus: the session's own route
+    url: string;
+    // Label of the action button; without one the notification has none
+    actionTitle?: string;
+}
+
+export interface CancelRestMessage {
+    type: 'CANCEL_REST';
+}
+
+export interface SkipWaitingMessage {
+    type: 'SKIP_WAITING';
+}
+
+export type WorkerMessage = ScheduleRestMessage | CancelRestMessage | SkipWaitingMessage;
+
+// Sent by the worker to the page when an action button is tapped
+export interface RestActionMessage {
+    type: 'REST_ACTION';
+    action: RestAction;
+    sessionId: string;
+}
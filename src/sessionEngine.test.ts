@@ -0,0 +1,358 @@
+import { describe, expect, it } from 'vitest';
+import type { Session, SessionTimer, SetData } from './db';
+import {
+    IDLE_TIMER,
+    TICK_MS,
+    countdownLeft,
+    createSessionEngine,
+    elapsedRestMs,
+    elapsedTutMs,
+    persistTimer,
+    restoreTimer,
+    transition,
+    type Clock,
+    type Timer,
+    type TimerEvent,
+} from './sessionEngine';
+import { indexOfEntry, skipExercise } from './sessionFlow';
+
+const COUNTDOWN_MS = 5000;
+
+// A clock that only moves when told to, ticking the engine as a real interval would
+function manualClock(start = 1_000_000) {
+    let time = start;
+    const ticks = new Set<() => void>();
+    const clock: Clock = {
+        now: () => time,
+        every(_ms, tick) {
+            ticks.add(tick);
+            return () => ticks.delete(tick);
+        },
+    };
+    function advance(ms: number) {
+        for (let left = ms; left > 0; left -= TICK_MS) {
+            time += Math.min(TICK_MS, left);
+            ticks.forEach(tick => tick());
+        }
+    }
+    return { clock, advance, now: () => time };
+}
+
+function loggedSet(setNumber: number, endTime = 0): SetData {
+    return {
+        setNumber,
+        weight: 60,
+        reps: 8,
+        rpe: 8,
+        technicalFailure: false,
+        tutMs: 30000,
+        restMs: 90000,
+        startTime: endTime,
+        endTime,
+    };
+}
+
+// Exercises as [planned sets, logged sets]
+function session(...exercises: [number, number][]): Session {
+    return {
+        id: 'session-1',
+        templateId: 'template-1',
+        templateName: 'Pierna',
+        startTime: 0,
+        completed: false,
+        exercises: exercises.map(([sets, logged], i) => ({
+            exerciseId: `exercise-${i}`,
+            prescription: { sets, targetReps: 8, restSeconds: 90 },
+            sets: Array.from({ length: logged }, (_, n) => loggedSet(n + 1)),
+        })),
+    };
+}
+
+function logSet(current: Session, exerciseIndex: number, endTime = 0): Session {
+    return {
+        ...current,
+        exercises: current.exercises.map((ex, i) =>
+            i === exerciseIndex ? { ...ex, sets: [...ex.sets, loggedSet(ex.sets.length + 1, endTime)] } : ex
+        ),
+    };
+}
+
+function run(timer: Timer, now: number, ...events: TimerEvent[]): Timer {
+    return events.reduce((current, event) => transition(current, event, now), timer);
+}
+
+function saved(fields: Partial<SessionTimer>): SessionTimer {
+    return {
+        state: 'IDLE',
+        tutStartTime: null,
+        restStartTime: null,
+        countdownEndTime: null,
+        lastTutMs: 0,
+        setRegistered: false,
+        ...fields,
+    };
+}
+
+describe('resuming mid-countdown', () => {
+    const plan = session([3, 1]);
+
+    it('carries on with the seconds left', () => {
+        const timer = restoreTimer(plan, saved({ state: 'PREPARATION', countdownEndTime: 10_000 }), 7_500);
+
+        expect(timer.state).toBe('PREPARATION');
+        expect(timer).toMatchObject({ exerciseIndex: 0, setIndex: 1 });
+        expect(countdownLeft(timer, 7_500)).toBe(3);
+    });
+
+    it('starts TUT when the countdown was due once the clock gets there', () => {
+        const { clock, advance } = manualClock(7_500);
+        const engine = createSessionEngine(clock);
+        engine.load(restoreTimer(plan, saved({ state: 'PREPARATION', countdownEndTime: 10_000 }), clock.now()));
+        engine.start();
+
+        advance(2_400);
+        expect(engine.getTimer().state).toBe('PREPARATION');
+        advance(1_000);
+        expect(engine.getTimer()).toMatchObject({ state: 'EXECUTION', tutStartTime: 10_000, countdownEndTime: null });
+        expect(elapsedTutMs(engine.getTimer(), engine.getNow())).toBe(900);
+    });
+
+    it('counts TUT from the end of a countdown that ran out while away', () => {
+        const timer = restoreTimer(plan, saved({ state: 'PREPARATION', countdownEndTime: 10_000 }), 25_000);
+
+        expect(timer).toMatchObject({ state: 'EXECUTION', tutStartTime: 10_000 });
+        expect(elapsedTutMs(timer, 25_000)).toBe(15_000);
+    });
+
+    it('keeps a paused countdown frozen and shifts it on resume', () => {
+        const paused = saved({ state: 'PAUSED', countdownEndTime: 10_000, pausedFrom: 'PREPARATION', pauseStartTime: 8_000 });
+        const timer = restoreTimer({ ...plan, pauses: [{ start: 8_000 }] }, paused, 60_000);
+
+        expect(timer.state).toBe('PAUSED');
+        expect(countdownLeft(timer, 60_000)).toBe(2);
+
+        const resumed = transition(timer, { type: 'RESUME' }, 70_000);
+        expect(resumed).toMatchObject({ state: 'PREPARATION', countdownEndTime: 72_000, pauseStartTime: null });
+    });
+
+    it('round-trips through what is saved', () => {
+        const running = run({ ...IDLE_TIMER, exerciseIndex: 0, setIndex: 1 }, 1_000, { type: 'START_SET', countdownMs: COUNTDOWN_MS });
+        // lastTutMs comes back from the last logged set, as it did before the set started
+        expect(restoreTimer(plan, persistTimer(running), 3_000)).toEqual({ ...running, lastTutMs: 30000 });
+    });
+});
+
+describe('last set of the last exercise', () => {
+    it('stays in REST with the set registered and nothing to start', () => {
+        let plan = session([2, 2], [2, 1]);
+        let timer = restoreTimer(plan, undefined, 0);
+        expect(timer).toMatchObject({ state: 'IDLE', exerciseIndex: 1, setIndex: 1 });
+
+        timer = run(timer, 0, { type: 'START_SET', countdownMs: 0 });
+        timer = run(timer, 40_000, { type: 'END_SET' });
+        expect(timer).toMatchObject({ state: 'REST', lastTutMs: 40_000, restStartTime: 40_000 });
+
+        plan = logSet(plan, 1);
+        timer = run(timer, 50_000, { type: 'SET_REGISTERED', session: plan });
+        expect(timer).toMatchObject({ state: 'REST', setRegistered: true, exerciseIndex: 1, setIndex: 1 });
+
+        expect(run(timer, 60_000, { type: 'NEXT_SET', session: plan, countdownMs: COUNTDOWN_MS })).toBe(timer);
+        expect(run(timer, 60_000, { type: 'NEXT_EXERCISE', session: plan })).toBe(timer);
+    });
+
+    it('lands there when a finished session is reopened', () => {
+        const timer = restoreTimer(session([2, 2], [3, 3]), undefined, 0);
+        expect(timer).toMatchObject({ state: 'REST', setRegistered: true, exerciseIndex: 1, setIndex: 2 });
+    });
+
+    it('does not register the same set twice', () => {
+        const plan = session([1, 1]);
+        const timer = { ...IDLE_TIMER, state: 'REST' as const, setRegistered: true, restStartTime: 0 };
+        expect(run(timer, 1_000, { type: 'SET_REGISTERED', session: plan })).toBe(timer);
+    });
+});
+
+describe('TRANSITION', () => {
+    it('follows the last set of an exercise while the rest keeps running', () => {
+        const plan = logSet(session([2, 1], [2, 0]), 0);
+        const resting: Timer = { ...IDLE_TIMER, state: 'REST', setIndex: 1, restStartTime: 100_000, lastTutMs: 30_000 };
+
+        const timer = run(resting, 105_000, { type: 'SET_REGISTERED', session: plan });
+        expect(timer).toMatchObject({ state: 'TRANSITION', setRegistered: true, restStartTime: 100_000 });
+        expect(elapsedRestMs(timer, 160_000)).toBe(60_000);
+
+        const next = run(timer, 190_000, { type: 'NEXT_EXERCISE', session: plan });
+        expect(next).toEqual({ ...IDLE_TIMER, exerciseIndex: 1, setIndex: 0 });
+    });
+
+    it('goes between the members of a superset', () => {
+        const plan: Session = {
+            ...session([2, 0], [2, 0]),
+            groups: [{ id: 'g', type: 'superset', restAfterRoundSeconds: 120 }],
+        };
+        plan.exercises = plan.exercises.map(ex => ({ ...ex, prescription: { ...ex.prescription!, groupId: 'g' } }));
+
+        const logged = logSet(plan, 0);
+        const resting: Timer = { ...IDLE_TIMER, state: 'REST', restStartTime: 0 };
+        const timer = run(resting, 1_000, { type: 'SET_REGISTERED', session: logged });
+        expect(timer.state).toBe('TRANSITION');
+        expect(run(timer, 2_000, { type: 'NEXT_EXERCISE', session: logged })).toMatchObject({ exerciseIndex: 1, setIndex: 0 });
+    });
+
+    it('is restored with its rest clock', () => {
+        const plan = logSet(session([2, 1], [2, 0]), 0, 55_000);
+        const timer = restoreTimer(plan, saved({ state: 'TRANSITION', restStartTime: 50_000, lastTutMs: 20_000, setRegistered: true }), 80_000);
+        expect(timer).toMatchObject({ state: 'TRANSITION', exerciseIndex: 0, setIndex: 1, lastTutMs: 20_000 });
+        expect(elapsedRestMs(timer, 80_000)).toBe(30_000);
+    });
+
+    it('moves on from a started exercise that is skipped', () => {
+        const plan = session([3, 1], [2, 0], [2, 0]);
+        const resting: Timer = { ...IDLE_TIMER, state: 'REST', setRegistered: true, restStartTime: 0 };
+
+        const skipped = skipExercise(plan, 0);
+        expect(skipped.exercises.map(ex => [ex.exerciseId, ex.sets.length, ex.prescription?.sets])).toEqual([
+            ['exercise-0', 1, 1],
+            ['exercise-1', 0, 2],
+            ['exercise-2', 0, 2],
+            ['exercise-0', 0, 2],
+        ]);
+        const timer = run(resting, 1_000, { type: 'PLAN_CHANGED', session: skipped, index: indexOfEntry(skipped, plan.exercises[0]) });
+        expect(timer.state).toBe('TRANSITION');
+        expect(run(timer, 2_000, { type: 'NEXT_EXERCISE', session: skipped })).toMatchObject({ exerciseIndex: 1, setIndex: 0 });
+    });
+
+    it('turns back into REST when the plan change leaves more sets of the exercise', () => {
+        const plan = session([2, 2], [2, 0]);
+        const timer: Timer = { ...IDLE_TIMER, state: 'TRANSITION', setIndex: 1, setRegistered: true, restStartTime: 0 };
+        const more: Session = {
+            ...plan,
+            exercises: plan.exercises.map((ex, i) => i === 0 ? { ...ex, prescription: { ...ex.prescription!, sets: 3 } } : ex),
+        };
+
+        expect(run(timer, 1_000, { type: 'PLAN_CHANGED', session: more, index: 0 })).toMatchObject({ state: 'REST', setIndex: 1 });
+    });
+});
+
+describe('reconciling a saved timer with its session', () => {
+    it('registers a set logged during the rest whose flag was lost', () => {
+        const plan = logSet(session([3, 1]), 0, 105_000);
+        const timer = restoreTimer(plan, saved({ state: 'REST', restStartTime: 100_000, lastTutMs: 30_000 }), 120_000);
+
+        expect(timer).toMatchObject({ state: 'REST', setRegistered: true, exerciseIndex: 0, setIndex: 1 });
+        expect(transition(timer, { type: 'SET_REGISTERED', session: plan }, 130_000)).toBe(timer);
+    });
+
+    it('goes to TRANSITION when that set finished the exercise', () => {
+        const plan = logSet(session([2, 1], [2, 0]), 0, 105_000);
+        const timer = restoreTimer(plan, saved({ state: 'REST', restStartTime: 100_000 }), 120_000);
+        expect(timer).toMatchObject({ state: 'TRANSITION', setRegistered: true, exerciseIndex: 0, setIndex: 1 });
+    });
+
+    it('gives the set form back when the registered set is missing', () => {
+        const plan = session([3, 1]);
+        const timer = restoreTimer(plan, saved({ state: 'TRANSITION', restStartTime: 100_000, setRegistered: true }), 120_000);
+        expect(timer).toMatchObject({ state: 'REST', setRegistered: false, exerciseIndex: 0, setIndex: 1, restStartTime: 100_000 });
+    });
+
+    it('pauses a timer the session was paused without', () => {
+        const plan = { ...session([3, 1]), pauses: [{ start: 20_000 }] };
+        const timer = restoreTimer(plan, saved({ state: 'EXECUTION', tutStartTime: 10_000 }), 90_000);
+
+        expect(timer).toMatchObject({ state: 'PAUSED', pausedFrom: 'EXECUTION', pauseStartTime: 20_000 });
+        expect(elapsedTutMs(timer, 90_000)).toBe(10_000);
+    });
+
+    it('resumes a timer at the end of the pause the session recorded', () => {
+        const plan = { ...session([3, 1]), pauses: [{ start: 20_000, end: 50_000 }] };
+        const paused = saved({ state: 'PAUSED', tutStartTime: 10_000, pausedFrom: 'EXECUTION', pauseStartTime: 20_000 });
+        const timer = restoreTimer(plan, paused, 90_000);
+
+        expect(timer).toMatchObject({ state: 'EXECUTION', tutStartTime: 40_000, pauseStartTime: null });
+        expect(elapsedTutMs(timer, 90_000)).toBe(50_000);
+    });
+
+    it('drops a running set once every set is logged', () => {
+        const timer = restoreTimer(session([2, 2]), saved({ state: 'EXECUTION', tutStartTime: 10_000 }), 20_000);
+        expect(timer).toMatchObject({ state: 'REST', setRegistered: true, tutStartTime: null });
+    });
+});
+
+describe('engine', () => {
+    it('moves to a committed event only once the session is saved', async () => {
+        const { clock } = manualClock(0);
+        const engine = createSessionEngine(clock, { ...IDLE_TIMER, state: 'REST', restStartTime: 0 });
+        const plan = session([3, 1]);
+
+        await expect(engine.commit({ type: 'SET_REGISTERED', session: plan }, () => Promise.reject(new Error('quota')))).rejects.toThrow();
+        expect(engine.getTimer().setRegistered).toBe(false);
+
+        let written: Timer | null = null;
+        await engine.commit({ type: 'SET_REGISTERED', session: plan }, async next => {
+            written = next;
+            expect(engine.getTimer().setRegistered).toBe(false);
+        });
+        expect(engine.getTimer()).toBe(written);
+        expect(engine.getTimer().setRegistered).toBe(true);
+    });
+
+    it('takes one of two concurrent commits and refuses the other', async () => {
+        const { clock } = manualClock(0);
+        const engine = createSessionEngine(clock, { ...IDLE_TIMER, state: 'REST', restStartTime: 0 });
+        const plan = session([3, 1]);
+        let saves = 0;
+        let finishSave = () => {};
+        const save = () => {
+            saves++;
+            return new Promise<void>(resolve => { finishSave = resolve; });
+        };
+
+        const first = engine.commit({ type: 'SET_REGISTERED', session: plan }, save);
+        const second = engine.commit({ type: 'SET_REGISTERED', session: plan }, save);
+        expect(await second).toBe(false);
+        finishSave();
+
+        expect(await first).toBe(true);
+        expect(saves).toBe(1);
+        expect(engine.getTimer().setRegistered).toBe(true);
+    });
+
+    it('tells subscribers about changes of state, not about ticks', () => {
+        const { clock, advance } = manualClock(0);
+        const engine = createSessionEngine(clock);
+        const states: string[] = [];
+        let ticks = 0;
+        engine.subscribe(timer => states.push(timer.state));
+        engine.subscribeClock(() => ticks++);
+        const stop = engine.start();
+
+        engine.dispatch({ type: 'START_SET', countdownMs: 1_000 });
+        advance(3_000);
+        engine.dispatch({ type: 'END_SET' });
+
+        expect(states).toEqual(['PREPARATION', 'EXECUTION', 'REST']);
+        expect(ticks).toBe(32);
+        expect(engine.getTimer().lastTutMs).toBe(2_000);
+
+        stop();
+        advance(1_000);
+        expect(ticks).toBe(32);
+    });
+
+    it('freezes every clock while paused', () => {
+        const { clock, advance } = manualClock(0);
+        const engine = createSessionEngine(clock);
+        engine.start();
+
+        engine.dispatch({ type: 'START_SET', countdownMs: 0 });
+        advance(10_000);
+        engine.dispatch({ type: 'PAUSE' });
+        advance(60_000);
+        expect(elapsedTutMs(engine.getTimer(), engine.getNow())).toBe(10_000);
+
+        engine.dispatch({ type: 'RESUME' });
+        advance(5_000);
+        engine.dispatch({ type: 'END_SET' });
+        expect(engine.getTimer().lastTutMs).toBe(15_000);
+    });
+});
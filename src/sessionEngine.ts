@@ -0,0 +1,384 @@
+import type { Session, SessionTimer } from './db';
+import { nextPosition, type SessionPosition } from './sessionFlow';
+import { isPaused } from './sessionPauses';
+
+// The set timer of a session as a state machine: `transition` is the pure step from one
+// timer to the next, and the engine built by createSessionEngine holds the current one, ticks
+// it on an injectable clock and tells subscribers what changed. Where the session stands in
+// its plan is read from the session passed with the events that need it.
+//
+// States:
+// IDLE - Ready to start a set
+// PREPARATION - Countdown before TUT, as long as the user's preference
+// EXECUTION - TUT running
+// REST - Rest running while the set is logged, then until the next one starts
+// TRANSITION - Rest before moving to a different exercise
+// PAUSED - Every clock frozen; resuming returns to the state it interrupted
+export type TimerState = 'IDLE' | 'PREPARATION' | 'EXECUTION' | 'REST' | 'TRANSITION' | 'PAUSED';
+
+export interface Timer {
+    state: TimerState;
+    exerciseIndex: number;
+    setIndex: number;
+    // Whether the set just done has been logged
+    setRegistered: boolean;
+    tutStartTime: number | null;
+    restStartTime: number | null;
+    countdownEndTime: number | null;
+    lastTutMs: number;
+    // While PAUSED: the state to resume and when the pause began
+    pausedFrom: TimerState | null;
+    pauseStartTime: number | null;
+}
+
+export type TimerEvent =
+    // From IDLE; without a countdown the set starts right away
+    | { type: 'START_SET'; countdownMs: number }
+    // Ends the countdown once it is due
+    | { type: 'TICK' }
+    | { type: 'END_SET' }
+    // `session` already holds the logged set
+    | { type: 'SET_REGISTERED'; session: Session }
+    | { type: 'NEXT_SET'; session: Session; countdownMs: number }
+    | { type: 'NEXT_EXERCISE'; session: Session }
+    // A plan edit or set correction between sets; `index` is where the exercise in progress
+    // ended up, -1 when it is gone
+    | { type: 'PLAN_CHANGED'; session: Session; index: number }
+    | { type: 'PAUSE' }
+    | { type: 'RESUME' };
+
+export const IDLE_TIMER: Timer = {
+    state: 'IDLE',
+    exerciseIndex: 0,
+    setIndex: 0,
+    setRegistered: false,
+    tutStartTime: null,
+    restStartTime: null,
+    countdownEndTime: null,
+    lastTutMs: 0,
+    pausedFrom: null,
+    pauseStartTime: null,
+};
+
+function startSet(timer: Timer, countdownMs: number, now: number): Timer {
+    const started = { ...timer, setRegistered: false, restStartTime: null, lastTutMs: 0 };
+    return countdownMs > 0
+        ? { ...started, state: 'PREPARATION', countdownEndTime: now + countdownMs }
+        : { ...started, state: 'EXECUTION', tutStartTime: now };
+}
+
+// Events that do not apply to the current state return it unchanged
+export function transition(timer: Timer, event: TimerEvent, now: number): Timer {
+    switch (event.type) {
+        case 'START_SET':
+            return timer.state === 'IDLE' ? startSet(timer, event.countdownMs, now) : timer;
+
+        case 'TICK':
+            // TUT starts when the countdown was due, however late the tick comes
+            if (timer.state !== 'PREPARATION' || timer.countdownEndTime === null || now < timer.countdownEndTime) return timer;
+            return { ...timer, state: 'EXECUTION', tutStartTime: timer.countdownEndTime, countdownEndTime: null };
+
+        case 'END_SET':
+            if (timer.state !== 'EXECUTION' || timer.tutStartTime === null) return timer;
+            return {
+                ...timer,
+                state: 'REST',
+                lastTutMs: now - timer.tutStartTime,
+                tutStartTime: null,
+                restStartTime: now,
+                setRegistered: false,
+            };
+
+        case 'SET_REGISTERED': {
+            if (timer.state !== 'REST' || timer.setRegistered) return timer;
+            // Another set of this exercise stays in REST; a different exercise (the next one in
+            // the plan, or the next member of a superset or circuit) goes through TRANSITION.
+            // With nothing left, REST with the set registered is where the session is finished.
+            const next = nextPosition(event.session, timer.exerciseIndex);
+            const state = next && next.exerciseIndex !== timer.exerciseIndex ? 'TRANSITION' : 'REST';
+            return { ...timer, state, setRegistered: true };
+        }
+
+        case 'NEXT_SET': {
+            if (timer.state !== 'REST' || !timer.setRegistered) return timer;
+            const next = nextPosition(event.session, timer.exerciseIndex);
+            if (!next) return timer;
+            const setIndex = next.exerciseIndex === timer.exerciseIndex ? next.setIndex : timer.setIndex;
+            return startSet({ ...timer, state: 'IDLE', setIndex }, event.countdownMs, now);
+        }
+
+        case 'NEXT_EXERCISE': {
+            // The next member of the current group, or the first exercise in the plan with sets
+            // left, which is not necessarily the following one once exercises were skipped or
+            // reordered
+            const next = timer.state === 'TRANSITION' ? nextPosition(event.session, timer.exerciseIndex) : null;
+            if (!next) return timer;
+            return {
+                ...IDLE_TIMER,
+                exerciseIndex: next.exerciseIndex,
+                setIndex: next.setIndex,
+            };
+        }
+
+        case 'PLAN_CHANGED': {
+            const { session, index } = event;
+            const current = session.exercises[index];
+            const upcoming = nextPosition(session, index);
+
+            if (timer.state === 'IDLE') {
+                // Carry on with a half-done exercise or group, otherwise go to the first one with sets left
+                if (upcoming) return { ...timer, exerciseIndex: upcoming.exerciseIndex, setIndex: upcoming.setIndex };
+                if (index < 0) return timer;
+                return { ...timer, exerciseIndex: index, setRegistered: true, state: 'REST' };
+            }
+            if (timer.state === 'TRANSITION' || (timer.state === 'REST' && timer.setRegistered)) {
+                // Resting: the rest keeps running and the next step follows the edited plan
+                return {
+                    ...timer,
+                    exerciseIndex: index >= 0 ? index : timer.exerciseIndex,
+                    setIndex: current ? Math.max(current.sets.length - 1, 0) : timer.setIndex,
+                    state: upcoming && upcoming.exerciseIndex !== index ? 'TRANSITION' : 'REST',
+                };
+            }
+            return timer;
+        }
+
+        case 'PAUSE':
+            if (timer.state === 'PAUSED') return timer;
+            return { ...timer, state: 'PAUSED', pausedFrom: timer.state, pauseStartTime: now };
+
+        case 'RESUME': {
+            if (timer.state !== 'PAUSED' || timer.pausedFrom === null || timer.pauseStartTime === null) return timer;
+            // Running clocks move forward by the length of the pause, so TUT, rest and the
+            // countdown carry on from where they stopped
+            const paused = now - timer.pauseStartTime;
+            const shift = (time: number | null) => time === null ? null : time + paused;
+            return {
+                ...timer,
+                state: timer.pausedFrom,
+                tutStartTime: shift(timer.tutStartTime),
+                restStartTime: shift(timer.restStartTime),
+                countdownEndTime: shift(timer.countdownEndTime),
+                pausedFrom: null,
+                pauseStartTime: null,
+            };
+        }
+    }
+}
+
+// Clocks stand still at the start of a pause
+function clockTime(timer: Timer, now: number): number {
+    return timer.state === 'PAUSED' && timer.pauseStartTime !== null ? timer.pauseStartTime : now;
+}
+
+export function elapsedTutMs(timer: Timer, now: number): number {
+    return timer.tutStartTime === null ? 0 : clockTime(timer, now) - timer.tutStartTime;
+}
+
+export function elapsedRestMs(timer: Timer, now: number): number {
+    return timer.restStartTime === null ? 0 : clockTime(timer, now) - timer.restStartTime;
+}
+
+// Whole seconds left, as shown: 5 until a full second has gone, 0 once it is due
+export function countdownLeft(timer: Timer, now: number): number {
+    if (timer.countdownEndTime === null) return 0;
+    return Math.max(0, Math.ceil((timer.countdownEndTime - clockTime(timer, now)) / 1000));
+}
+
+export function pauseElapsedMs(timer: Timer, now: number): number {
+    return timer.state === 'PAUSED' && timer.pauseStartTime !== null ? now - timer.pauseStartTime : 0;
+}
+
+export function persistTimer(timer: Timer): SessionTimer {
+    return {
+        state: timer.state,
+        tutStartTime: timer.tutStartTime,
+        restStartTime: timer.restStartTime,
+        countdownEndTime: timer.countdownEndTime,
+        lastTutMs: timer.lastTutMs,
+        setRegistered: timer.setRegistered,
+        ...(timer.state === 'PAUSED' && timer.pausedFrom !== null && timer.pauseStartTime !== null && {
+            pausedFrom: timer.pausedFrom,
+            pauseStartTime: timer.pauseStartTime,
+        }),
+    };
+}
+
+// Position of the set logged last, by end time
+function lastLoggedSet(session: Session): (SessionPosition & { endTime: number }) | null {
+    const logged = session.exercises.flatMap((exercise, exerciseIndex) =>
+        exercise.sets.map((set, setIndex) => ({ exerciseIndex, setIndex, endTime: set.endTime }))
+    );
+    return logged.reduce<(SessionPosition & { endTime: number }) | null>(
+        (last, set) => !last || set.endTime >= last.endTime ? set : last,
+        null
+    );
+}
+
+// A timer saved apart from its session (in localStorage, as before they were saved together)
+// can disagree with it; the session's sets and pauses win:
+// - a pause on one side only is started or ended on the other, at the session's times
+// - a set logged after the rest started is the one that rest follows, registered whatever the
+//   flag says, and a rest flagged as registered without one gets its set form back
+// - a session with every set logged has no set to be running
+export function reconcileTimer(session: Session, timer: Timer, now: number): Timer {
+    const lastPause = session.pauses?.[session.pauses.length - 1];
+    if (isPaused(session) && timer.state !== 'PAUSED') {
+        timer = transition(timer, { type: 'PAUSE' }, lastPause!.start);
+    } else if (!isPaused(session) && timer.state === 'PAUSED' && timer.pauseStartTime !== null) {
+        timer = transition(timer, { type: 'RESUME' }, Math.max(lastPause?.end ?? now, timer.pauseStartTime));
+    }
+
+    if ((timer.state === 'REST' || timer.state === 'TRANSITION') && timer.restStartTime !== null) {
+        const last = lastLoggedSet(session);
+        if (last && last.endTime >= timer.restStartTime) {
+            const resting: Timer = { ...timer, state: 'REST', setRegistered: false, exerciseIndex: last.exerciseIndex, setIndex: last.setIndex };
+            return transition(resting, { type: 'SET_REGISTERED', session }, now);
+        }
+        if (timer.setRegistered) return { ...timer, state: 'REST', setRegistered: false };
+    }
+
+    if (!nextPosition(session) && (timer.state === 'IDLE' || timer.state === 'PREPARATION' || timer.state === 'EXECUTION')) {
+        return restoreTimer(session, undefined, now);
+    }
+    return timer;
+}
+
+// The timer of a session being resumed: positioned on the next set to do, or on the last one
+// when every set is logged, then put back in the state saved for it, if any, and reconciled
+// with the session
+export function restoreTimer(session: Session, saved: SessionTimer | undefined, now: number): Timer {
+    let timer: Timer = IDLE_TIMER;
+    const position = nextPosition(session);
+    if (position) {
+        const sets = session.exercises[position.exerciseIndex].sets;
+        timer = { ...timer, ...position, lastTutMs: sets[sets.length - 1]?.tutMs ?? 0 };
+    } else if (session.exercises.length > 0) {
+        const exerciseIndex = session.exercises.length - 1;
+        const setIndex = Math.max(session.exercises[exerciseIndex].sets.length - 1, 0);
+        timer = { ...timer, exerciseIndex, setIndex, setRegistered: true, state: 'REST' };
+    }
+
+    if (!saved) return timer;
+    return reconcileTimer(session, savedTimer(timer, saved, now), now);
+}
+
+function savedTimer(timer: Timer, saved: SessionTimer, now: number): Timer {
+    // The interrupted state's clocks come back as they were and stay frozen until resumed
+    if (saved.state === 'PAUSED' && saved.pausedFrom && saved.pauseStartTime) {
+        return {
+            ...timer,
+            state: 'PAUSED',
+            tutStartTime: saved.tutStartTime,
+            restStartTime: saved.restStartTime,
+            countdownEndTime: saved.countdownEndTime,
+            lastTutMs: saved.lastTutMs,
+            setRegistered: saved.setRegistered || false,
+            pausedFrom: saved.pausedFrom,
+            pauseStartTime: saved.pauseStartTime,
+        };
+    }
+    if (saved.state === 'PREPARATION' && saved.countdownEndTime) {
+        const preparing: Timer = { ...timer, state: 'PREPARATION', countdownEndTime: saved.countdownEndTime };
+        return transition(preparing, { type: 'TICK' }, now);
+    }
+    if (saved.state === 'EXECUTION' && saved.tutStartTime) {
+        return { ...timer, state: 'EXECUTION', tutStartTime: saved.tutStartTime };
+    }
+    if ((saved.state === 'REST' || saved.state === 'TRANSITION') && saved.restStartTime) {
+        return {
+            ...timer,
+            state: saved.state,
+            restStartTime: saved.restStartTime,
+            lastTutMs: saved.lastTutMs,
+            setRegistered: saved.setRegistered || false,
+        };
+    }
+    return timer;
+}
+
+export interface Clock {
+    now(): number;
+    // Calls `tick` every `ms` until the returned function is called
+    every(ms: number, tick: () => void): () => void;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    every(ms, tick) {
+        const id = setInterval(tick, ms);
+        return () => clearInterval(id);
+    },
+};
+
+// `event` is null when the timer was replaced by `load`
+export type TimerListener = (timer: Timer, previous: Timer, event: TimerEvent | null) => void;
+
+export interface SessionEngine {
+    getTimer(): Timer;
+    // Time of the last tick or event, which everything shown is computed against
+    getNow(): number;
+    dispatch(event: TimerEvent): void;
+    // For events that come with a change to the session: `save` gets the timer the event
+    // leads to, to write both at once, and the engine only moves to it once that succeeded.
+    // One commit at a time: another one while it is saving is refused, with false, so a double
+    // tap cannot log a set twice.
+    commit(event: TimerEvent, save: (next: Timer) => Promise<void>): Promise<boolean>;
+    load(timer: Timer): void;
+    // Called when the timer changes state, not on every tick
+    subscribe(listener: TimerListener): () => void;
+    // Called on every tick and event
+    subscribeClock(listener: () => void): () => void;
+    // Starts ticking; returns the function that stops it
+    start(): () => void;
+}
+
+export const TICK_MS = 100;
+
+export function createSessionEngine(clock: Clock = systemClock, initial: Timer = IDLE_TIMER): SessionEngine {
+    let timer = initial;
+    let now = clock.now();
+    const listeners = new Set<TimerListener>();
+    const clockListeners = new Set<() => void>();
+    let committing = false;
+
+    function update(next: Timer, event: TimerEvent | null) {
+        now = clock.now();
+        const previous = timer;
+        timer = next;
+        if (next !== previous) listeners.forEach(listener => listener(next, previous, event));
+        clockListeners.forEach(listener => listener());
+    }
+
+    function dispatch(event: TimerEvent) {
+        update(transition(timer, event, clock.now()), event);
+    }
+
+    return {
+        getTimer: () => timer,
+        getNow: () => now,
+        dispatch,
+        async commit(event, save) {
+            if (committing) return false;
+            committing = true;
+            try {
+                const next = transition(timer, event, clock.now());
+                await save(next);
+                update(next, event);
+                return true;
+            } finally {
+                committing = false;
+            }
+        },
+        load: next => update(next, null),
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        subscribeClock(listener) {
+            clockListeners.add(listener);
+            return () => clockListeners.delete(listener);
+        },
+        start: () => clock.every(TICK_MS, () => dispatch({ type: 'TICK' })),
+    };
+}
@@ -0,0 +1,206 @@
+import type {
+    ExerciseGroup,
+    ExercisePrescription,
+    Session,
+    SessionExercise,
+    WorkoutTemplate
+} from './db';
+import { DEFAULT_PRESCRIPTION } from './freestyle';
+
+// A session walks its own `exercises` array, in order, using each entry's prescription
+// snapshot; exercises sharing a group are walked round by round instead. Mid-session changes
+// (skip, swap, add, reorder, set count) rewrite that array and never touch the template the
+// session was started from. Every change below returns a new
+// Session and keeps each entry's `sets` array, which is how the view keeps track of the
+// exercise in progress across edits (see indexOfEntry).
+
+export interface SessionPosition {
+    exerciseIndex: number;
+    setIndex: number;
+}
+
+export function prescriptionOf(exercise: SessionExercise): ExercisePrescription {
+    return exercise.prescription ?? DEFAULT_PRESCRIPTION;
+}
+
+export function isExerciseComplete(exercise: SessionExercise): boolean {
+    return exercise.sets.length >= prescriptionOf(exercise).sets;
+}
+
+// Sessions started before prescriptions were snapshotted line up with their template index
+// for index; fill the missing snapshots from it
+export function withPrescriptions(session: Session, template: WorkoutTemplate): Session {
+    if (session.exercises.every(ex => ex.prescription)) return session;
+    return {
+        ...session,
+        exercises: session.exercises.map((ex, i) => {
+            if (ex.prescription) return ex;
+            const templateEx = template.exercises[i];
+            const prescription = templateEx && templateEx.exerciseId === ex.exerciseId
+                ? { sets: templateEx.sets, targetReps: templateEx.targetReps, restSeconds: templateEx.restSeconds }
+                : { ...DEFAULT_PRESCRIPTION, sets: Math.max(ex.sets.length, 1) };
+            return { ...ex, prescription };
+        }),
+    };
+}
+
+// The plan the session is following, in the shape the timer screen reads
+export function sessionPlan(session: Session): WorkoutTemplate {
+    return {
+        id: session.templateId,
+        name: session.templateName,
+        exercises: session.exercises.map(ex => ({ exerciseId: ex.exerciseId, ...prescriptionOf(ex) })),
+        groups: session.groups,
+    };
+}
+
+export function groupOf(session: Session, exerciseIndex: number): ExerciseGroup | undefined {
+    const exercise = session.exercises[exerciseIndex];
+    const groupId = exercise && prescriptionOf(exercise).groupId;
+    return groupId ? session.groups?.find(g => g.id === groupId) : undefined;
+}
+
+function groupMembers(session: Session, group: ExerciseGroup): number[] {
+    return session.exercises
+        .map((ex, i) => prescriptionOf(ex).groupId === group.id ? i : -1)
+        .filter(i => i >= 0);
+}
+
+// Rounds a group takes: as many as its longest member has sets
+export function groupRounds(session: Session, group: ExerciseGroup): number {
+    return Math.max(...groupMembers(session, group).map(i => prescriptionOf(session.exercises[i]).sets));
+}
+
+function position(session: Session, exerciseIndex: number): SessionPosition {
+    return { exerciseIndex, setIndex: session.exercises[exerciseIndex].sets.length };
+}
+
+// Next set to do. Once started, an exercise is finished before moving on, and a group goes
+// round by round (the member with the fewest sets done, earliest first) until every member is
+// complete; otherwise it is the first exercise in the plan with sets left. Null once every
+// exercise is complete.
+export function nextPosition(session: Session, currentIndex = -1): SessionPosition | null {
+    const current = session.exercises[currentIndex];
+    const currentGroup = groupOf(session, currentIndex);
+
+    if (current && !currentGroup && current.sets.length > 0 && !isExerciseComplete(current)) {
+        return position(session, currentIndex);
+    }
+
+    const anchor = currentGroup && groupMembers(session, currentGroup).some(i => !isExerciseComplete(session.exercises[i]))
+        ? currentIndex
+        : session.exercises.findIndex(ex => !isExerciseComplete(ex));
+    if (anchor < 0) return null;
+
+    const group = groupOf(session, anchor);
+    if (!group) return position(session, anchor);
+
+    const pending = groupMembers(session, group).filter(i => !isExerciseComplete(session.exercises[i]));
+    const next = pending.reduce((best, i) =>
+        session.exercises[i].sets.length < session.exercises[best].sets.length ? i : best
+    );
+    return position(session, next);
+}
+
+// Seconds to rest after the set at `at`. Inside a group there is no rest until the round's
+// last set, which is followed by the group's round rest.
+export function restAfterSet(session: Session, at: SessionPosition): number {
+    const exercise = session.exercises[at.exerciseIndex];
+    if (!exercise) return 0;
+    const prescription = prescriptionOf(exercise);
+    const group = groupOf(session, at.exerciseIndex);
+    if (!group) return prescription.restSeconds;
+
+    const round = at.setIndex + 1;
+    const roundContinues = groupMembers(session, group)
+        .some(i => i > at.exerciseIndex && prescriptionOf(session.exercises[i]).sets >= round);
+    return roundContinues ? 0 : group.restAfterRoundSeconds;
+}
+
+export function indexOfEntry(session: Session, entry: SessionExercise | undefined): number {
+    return entry ? session.exercises.findIndex(ex => ex.sets === entry.sets) : -1;
+}
+
+function withExercises(session: Session, exercises: SessionExercise[]): Session {
+    return { ...session, exercises };
+}
+
+// Leaves the exercise for later by moving it to the end of the plan. A started one is split
+// as in a swap, since the flow finishes a started exercise first: the sets logged stay where
+// they are, cut down to them, and the ones left move to the end.
+export function skipExercise(session: Session, index: number): Session {
+    const exercises = [...session.exercises];
+    const [skipped] = exercises.splice(index, 1);
+    if (skipped.sets.length === 0) return withExercises(session, [...exercises, skipped]);
+
+    const logged = skipped.sets.length;
+    const prescription = prescriptionOf(skipped);
+    const done = { ...skipped, prescription: { ...prescription, sets: logged } };
+    const left: SessionExercise = {
+        ...skipped,
+        prescription: {
+            ...prescription,
+            sets: Math.max(prescription.sets - logged, 1),
+            setTypes: prescription.setTypes?.slice(logged),
+            setPrescriptions: prescription.setPrescriptions?.slice(logged),
+        },
+        sets: [],
+    };
+    exercises.splice(index, 0, done);
+    return withExercises(session, [...exercises, left]);
+}
+
+export function moveExercise(session: Session, from: number, to: number): Session {
+    const exercises = [...session.exercises];
+    const [moved] = exercises.splice(from, 1);
+    exercises.splice(to, 0, moved);
+    return withExercises(session, exercises);
+}
+
+// Replaces the exercise with an alternative. Sets already logged stay with the original
+// exercise, which is cut down to them; the alternative takes over the remaining sets.
+export function swapExercise(session: Session, index: number, exerciseId: string): Session {
+    const original = session.exercises[index];
+    const prescription = prescriptionOf(original);
+    const swappedFromExerciseId = original.swappedFromExerciseId ?? original.exerciseId;
+
+    if (original.sets.length === 0) {
+        return withExercises(session, session.exercises.map((ex, i) =>
+            i === index ? { ...ex, exerciseId, swappedFromExerciseId } : ex
+        ));
+    }
+
+    const done = { ...original, prescription: { ...prescription, sets: original.sets.length } };
+    const replacement: SessionExercise = {
+        exerciseId,
+        swappedFromExerciseId,
+        prescription: { ...prescription, sets: Math.max(prescription.sets - original.sets.length, 1) },
+        sets: [],
+    };
+    const exercises = [...session.exercises];
+    exercises.splice(index, 1, done, replacement);
+    return withExercises(session, exercises);
+}
+
+// Inserts at `index`, or at the end of the plan
+export function addExercise(session: Session, exerciseId: string, prescription: ExercisePrescription, index = session.exercises.length): Session {
+    const exercises = [...session.exercises];
+    exercises.splice(index, 0, { exerciseId, prescription, added: true, sets: [] });
+    return withExercises(session, exercises);
+}
+
+// Only exercises without logged sets can be removed; the rest are history already
+export function removeExercise(session: Session, index: number): Session {
+    if (session.exercises[index]?.sets.length) return session;
+    return withExercises(session, session.exercises.filter((_, i) => i !== index));
+}
+
+// Planned sets never drop below the ones already logged, nor below one
+export function changeSetCount(session: Session, index: number, delta: number): Session {
+    return withExercises(session, session.exercises.map((ex, i) => {
+        if (i !== index) return ex;
+        const prescription = prescriptionOf(ex);
+        const sets = Math.max(prescription.sets + delta, ex.sets.length, 1);
+        return { ...ex, prescription: { ...prescription, sets } };
+    }));
+}
@@ -0,0 +1,36 @@
+import type { Session, SessionPause } from './db';
+
+// A paused session freezes its clock: paused time counts neither towards its duration nor
+// towards the TUT or rest of the set it interrupted. Pauses are kept on the session, the last
+// one without an end while it lasts.
+
+export function isPaused(session: Pick<Session, 'pauses'>): boolean {
+    const last = session.pauses?.[session.pauses.length - 1];
+    return last !== undefined && last.end === undefined;
+}
+
+// Paused time between `from` and `to`; a pause still going counts up to `to`
+export function pausedMs(pauses: SessionPause[] | undefined, from: number, to: number): number {
+    return (pauses ?? []).reduce((sum, pause) => {
+        const start = Math.max(pause.start, from);
+        const end = Math.min(pause.end ?? to, to);
+        return end > start ? sum + end - start : sum;
+    }, 0);
+}
+
+// Time actually spent training: start to end (or now, while it runs) minus pauses
+export function activeDurationMs(session: Pick<Session, 'startTime' | 'endTime' | 'pauses'>, now = Date.now()): number {
+    const end = session.endTime ?? now;
+    return Math.max(0, end - session.startTime - pausedMs(session.pauses, session.startTime, end));
+}
+
+export function startPause(session: Session, now = Date.now()): Session {
+    if (isPaused(session)) return session;
+    return { ...session, pauses: [...(session.pauses ?? []), { start: now }] };
+}
+
+export function endPause(session: Session, now = Date.now()): Session {
+    if (!isPaused(session)) return session;
+    const pauses = session.pauses!;
+    return { ...session, pauses: [...pauses.slice(0, -1), { ...pauses[pauses.length - 1], end: now }] };
+}
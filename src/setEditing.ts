@@ -0,0 +1,62 @@
+import type { Session, SetData } from './db';
+import type { WeightUnit } from './units';
+import { linkSets } from './setTypes';
+
+// Corrections to logged sets, used both by the live session and by History. Each returns a
+// new Session; set numbers are kept as 1..n in order, drop and rest-pause sets stay linked
+// to their parent, and every set whose data was changed or that was added after the fact
+// carries `editedAt`.
+
+export type SetChanges = Partial<Pick<SetData, 'weight' | 'reps' | 'durationMs' | 'distanceM' | 'rpe' | 'technicalFailure' | 'type'>>;
+
+function renumber(sets: SetData[]): SetData[] {
+    return linkSets(sets.map((set, i) => set.setNumber === i + 1 ? set : { ...set, setNumber: i + 1 }));
+}
+
+function withSets(session: Session, exerciseIndex: number, update: (sets: SetData[]) => SetData[]): Session {
+    return {
+        ...session,
+        exercises: session.exercises.map((ex, i) =>
+            i === exerciseIndex ? { ...ex, sets: renumber(update(ex.sets)) } : ex
+        ),
+    };
+}
+
+export function updateSet(session: Session, exerciseIndex: number, setIndex: number, changes: SetChanges, now = Date.now()): Session {
+    return withSets(session, exerciseIndex, sets =>
+        sets.map((set, i) => i === setIndex ? { ...set, ...changes, editedAt: now } : set)
+    );
+}
+
+export function deleteSet(session: Session, exerciseIndex: number, setIndex: number): Session {
+    return withSets(session, exerciseIndex, sets => sets.filter((_, i) => i !== setIndex));
+}
+
+export function insertSet(session: Session, exerciseIndex: number, setIndex: number, set: SetData, now = Date.now()): Session {
+    return withSets(session, exerciseIndex, sets => [
+        ...sets.slice(0, setIndex),
+        { ...set, editedAt: now },
+        ...sets.slice(setIndex),
+    ]);
+}
+
+// A set to insert after `previous`, copying its load so only what differs needs typing.
+// It has no timing data: TUT and rest are zero and it starts where `previous` ended.
+// After a timed set it is timed too, with the same hold time and distance.
+export function blankSet(previous: SetData | undefined, unit: WeightUnit, fallbackTime: number): SetData {
+    const time = previous?.endTime ?? fallbackTime;
+    return {
+        setNumber: 0,
+        weight: previous?.weight ?? 0,
+        unit: previous?.unit ?? unit,
+        reps: previous?.reps ?? 0,
+        ...(previous?.durationMs !== undefined && { durationMs: previous.durationMs }),
+        ...(previous?.distanceM !== undefined && { distanceM: previous.distanceM }),
+        rpe: previous?.rpe ?? 7,
+        technicalFailure: false,
+        tutMs: 0,
+        restMs: 0,
+        startTime: time,
+        endTime: time,
+    };
+}
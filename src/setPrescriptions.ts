@@ -0,0 +1,93 @@
+import type { ExercisePrescription, LoadTarget, SetData, SetPrescription } from './db';
+import { convertWeight, formatWeight, setUnit, WEIGHT_STEPS, type WeightUnit } from './units';
+import { matchesSetTypes, type SetType } from './setTypes';
+
+// Per-set targets of a template exercise. A set without its own prescription aims for the
+// exercise's targetReps with no effort or load target, which is how every template worked
+// before these existed.
+
+export function setPrescriptionAt(prescription: ExercisePrescription, setIndex: number): SetPrescription {
+    return prescription.setPrescriptions?.[setIndex] ?? { minReps: prescription.targetReps, maxReps: prescription.targetReps };
+}
+
+export function formatRepRange({ minReps, maxReps }: SetPrescription): string {
+    return minReps === maxReps ? `${minReps}` : `${minReps}–${maxReps}`;
+}
+
+// RIR is stored as entered and read as RPE 10 - RIR
+export function targetRpe(set: SetPrescription): number | undefined {
+    if (!set.effort) return undefined;
+    return set.effort.type === 'rpe' ? set.effort.value : 10 - set.effort.value;
+}
+
+export function formatEffort(set: SetPrescription): string | null {
+    if (!set.effort) return null;
+    return set.effort.type === 'rpe' ? `RPE ${set.effort.value}` : `RIR ${set.effort.value}`;
+}
+
+const ESTIMATE_SET_TYPES: SetType[] = ['working', 'amrap', 'backoff'];
+
+// Estimated 1RM (Epley) from the best set of up to 12 reps, in `unit`; null without one.
+// Warm-ups are left out, and so are sets in a unit that cannot be converted.
+export function estimateOneRepMax(sets: SetData[], unit: WeightUnit): number | null {
+    let best: number | null = null;
+    for (const set of sets) {
+        if (set.reps < 1 || set.reps > 12 || !matchesSetTypes(set, ESTIMATE_SET_TYPES)) continue;
+        const weight = convertWeight(set.weight, setUnit(set), unit);
+        if (weight === null || weight <= 0) continue;
+        const estimate = set.reps === 1 ? weight : weight * (1 + set.reps / 30);
+        if (best === null || estimate > best) best = estimate;
+    }
+    return best;
+}
+
+// Load to put on the bar in `unit`, rounded to the unit's step; null when a percentage has no
+// 1RM to work from or an absolute load cannot be converted
+export function prescribedWeight(load: LoadTarget, oneRepMax: number | null, unit: WeightUnit): number | null {
+    if (load.type === 'absolute') return convertWeight(load.weight, load.unit, unit);
+    if (oneRepMax === null) return null;
+    const step = WEIGHT_STEPS[unit];
+    return Math.round(oneRepMax * load.percent / 100 / step) * step;
+}
+
+// "8–12 · RPE 8 · 75% 1RM (≈ 90kg)"
+export function describeSetPrescription(set: SetPrescription, oneRepMax: number | null, unit: WeightUnit): string {
+    const parts = [`${formatRepRange(set)} reps`];
+    const effort = formatEffort(set);
+    if (effort) parts.push(effort);
+    if (set.load?.type === 'absolute') {
+        parts.push(formatWeight(set.load, unit));
+    } else if (set.load) {
+        const weight = prescribedWeight(set.load, oneRepMax, unit);
+        parts.push(`${set.load.percent}% 1RM${weight !== null ? ` (≈ ${formatWeight({ weight, unit })})` : ''}`);
+    }
+    return parts.join(' · ');
+}
+
+export interface SetPattern {
+    setPrescriptions: SetPrescription[];
+    setTypes: SetType[];
+}
+
+// Reps go down and load up from the first set to the last, e.g. 12/10/8/6 at 65–80% 1RM
+export function pyramidPattern(sets: number, fromReps = 12, toReps = 6, fromPercent = 65, toPercent = 80): SetPattern {
+    const at = (from: number, to: number, i: number) => sets > 1 ? from + (to - from) * i / (sets - 1) : from;
+    return {
+        setPrescriptions: Array.from({ length: sets }, (_, i) => {
+            const reps = Math.round(at(fromReps, toReps, i));
+            return { minReps: reps, maxReps: reps, load: { type: 'percent1RM', percent: Math.round(at(fromPercent, toPercent, i)) } };
+        }),
+        setTypes: Array.from({ length: sets }, () => 'working'),
+    };
+}
+
+// One heavy top set, then back-off sets with more reps at a lighter load
+export function topSetBackOffPattern(sets: number): SetPattern {
+    return {
+        setPrescriptions: Array.from({ length: sets }, (_, i) => i === 0
+            ? { minReps: 3, maxReps: 5, effort: { type: 'rpe', value: 8 }, load: { type: 'percent1RM', percent: 85 } }
+            : { minReps: 6, maxReps: 8, load: { type: 'percent1RM', percent: 75 } }
+        ),
+        setTypes: Array.from({ length: sets }, (_, i) => i === 0 ? 'working' : 'backoff'),
+    };
+}
@@ -0,0 +1,76 @@
+import type { Session, SetData } from './db';
+
+// Drop sets and rest-pause sets continue a previous set without a full rest, so they are
+// linked to the set they came out of (the nearest earlier set that is not one of them).
+export type SetType = 'warmup' | 'working' | 'drop' | 'amrap' | 'restPause' | 'backoff';
+
+export const SET_TYPES: { id: SetType; label: string; short: string }[] = [
+    { id: 'warmup', label: 'Calentamiento', short: 'C' },
+    { id: 'working', label: 'Efectiva', short: 'E' },
+    { id: 'drop', label: 'Drop set', short: 'D' },
+    { id: 'amrap', label: 'AMRAP', short: 'A' },
+    { id: 'restPause', label: 'Rest-pause', short: 'RP' },
+    { id: 'backoff', label: 'Back-off', short: 'B' },
+];
+
+const LINKED_SET_TYPES: SetType[] = ['drop', 'restPause'];
+
+// What totals, exports and the summary count unless told otherwise: everything but warm-ups
+export const DEFAULT_SET_TYPE_FILTER: SetType[] = SET_TYPES.map(t => t.id).filter(id => id !== 'warmup');
+
+export function isSetType(value: unknown): value is SetType {
+    return SET_TYPES.some(t => t.id === value);
+}
+
+// Sets logged before set types existed have no type and were working sets
+export function setTypeOf(set: Pick<SetData, 'type'>): SetType {
+    return set.type ?? 'working';
+}
+
+export function setTypeLabel(type: SetType): string {
+    return SET_TYPES.find(t => t.id === type)?.label ?? type;
+}
+
+export function isLinkedSetType(type: SetType): boolean {
+    return LINKED_SET_TYPES.includes(type);
+}
+
+// Type planned for the set at `setIndex`; sets past the planned list are working sets
+export function plannedSetType(setTypes: SetType[] | undefined, setIndex: number): SetType {
+    return setTypes?.[setIndex] ?? 'working';
+}
+
+// Points every drop and rest-pause set at its parent by set number, and clears the link
+// anywhere else. Expects sets already numbered 1..n in order.
+export function linkSets(sets: SetData[]): SetData[] {
+    let parent: number | undefined;
+    return sets.map(set => {
+        if (!isLinkedSetType(setTypeOf(set))) {
+            parent = set.setNumber;
+            return set.parentSetNumber === undefined ? set : { ...set, parentSetNumber: undefined };
+        }
+        return set.parentSetNumber === parent ? set : { ...set, parentSetNumber: parent };
+    });
+}
+
+export function matchesSetTypes(set: Pick<SetData, 'type'>, types: SetType[]): boolean {
+    return types.includes(setTypeOf(set));
+}
+
+// The session with only the sets of the given types; exercises left without sets are kept.
+// Sets keep their numbers, and a link to a parent set that was left out is cleared.
+export function filterSessionSets(session: Session, types: SetType[]): Session {
+    return {
+        ...session,
+        exercises: session.exercises.map(ex => {
+            const sets = ex.sets.filter(set => matchesSetTypes(set, types));
+            const kept = new Set(sets.map(set => set.setNumber));
+            return {
+                ...ex,
+                sets: sets.map(set => set.parentSetNumber === undefined || kept.has(set.parentSetNumber)
+                    ? set
+                    : { ...set, parentSetNumber: undefined }),
+            };
+        }),
+    };
+}
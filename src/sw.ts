@@ -0,0 +1,108 @@
+/// <reference lib="webworker" />
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching';
+import {
+    REST_NOTIFICATION_TAG,
+    type RestActionMessage,
+    type ScheduleRestMessage,
+    type WorkerMessage,
+} from './restTimerMessages';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Same precaching and update behaviour as the generated worker this replaces
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+self.skipWaiting();
+clientsClaim();
+
+// Chromium supports action buttons and vibration patterns; the bundled DOM types do not list them
+interface RestNotificationOptions extends NotificationOptions {
+    actions?: { action: string; title: string }[];
+    vibrate?: number[];
+}
+
+interface RestNotificationData {
+    sessionId: string;
+    url: string;
+}
+
+let restTimeout: ReturnType<typeof setTimeout> | undefined;
+// Settles the promise keeping the worker alive while a rest is pending
+let releaseRest: (() => void) | undefined;
+
+async function cancelRest() {
+    clearTimeout(restTimeout);
+    restTimeout = undefined;
+    releaseRest?.();
+    releaseRest = undefined;
+    const shown = await self.registration.getNotifications({ tag: REST_NOTIFICATION_TAG });
+    shown.forEach(notification => notification.close());
+}
+
+async function showRestNotification(message: ScheduleRestMessage) {
+    // With the session on screen the page alerts by itself
+    const windows = await self.clients.matchAll({ type: 'window' });
+    if (windows.some(client => client.focused)) return;
+
+    const data: RestNotificationData = { sessionId: message.sessionId, url: message.url };
+    const options: RestNotificationOptions = {
+        body: message.body,
+        tag: REST_NOTIFICATION_TAG,
+        icon: 'pwa-192x192.png',
+        vibrate: [200, 100, 200],
+        data,
+        actions: message.actionTitle ? [{ action: 'next', title: message.actionTitle }] : [],
+    };
+    await self.registration.showNotification(message.title, options);
+}
+
+// Browsers let a worker stay awake for a limited time after a message, so the wait is tied
+// to the message event. A new schedule replaces the pending one.
+async function scheduleRest(message: ScheduleRestMessage) {
+    await cancelRest();
+    const delay = Math.max(0, message.endsAt - Date.now());
+    await new Promise<void>(resolve => {
+        releaseRest = resolve;
+        restTimeout = setTimeout(() => {
+            restTimeout = undefined;
+            releaseRest = undefined;
+            showRestNotification(message).finally(resolve);
+        }, delay);
+    });
+}
+
+self.addEventListener('message', event => {
+    const message = event.data as WorkerMessage | undefined;
+    if (message?.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    } else if (message?.type === 'SCHEDULE_REST') {
+        event.waitUntil(scheduleRest(message));
+    } else if (message?.type === 'CANCEL_REST') {
+        event.waitUntil(cancelRest());
+    }
+});
+
+// Tapping the notification brings the session back; its action button also tells the page
+// to move on. A window on another route is sent to the session first, which reloads it, so
+// the action is dropped there and the session resumes where it was.
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    const { sessionId, url } = event.notification.data as RestNotificationData;
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const client = windows[0];
+        if (!client) {
+            await self.clients.openWindow(url);
+            return;
+        }
+        await client.focus();
+        if (client.url !== url) {
+            await client.navigate(url);
+        } else if (event.action === 'next') {
+            const message: RestActionMessage = { type: 'REST_ACTION', action: 'next', sessionId };
+            client.postMessage(message);
+        }
+    })());
+});
@@ -0,0 +1,94 @@
+import type { Tempo } from './db';
+
+// A tempo prescribes the seconds of each phase of a rep, written eccentric-pause-concentric-top
+// as in 3-1-2-0. During a set the metronome walks the phases in that order, skipping the ones
+// lasting 0 seconds, and starts the next rep when the last one ends.
+
+export type TempoPhase = keyof Tempo;
+
+export const TEMPO_PHASES: { id: TempoPhase; label: string }[] = [
+    { id: 'eccentric', label: 'Baja' },
+    { id: 'pause', label: 'Pausa' },
+    { id: 'concentric', label: 'Sube' },
+    { id: 'top', label: 'Arriba' },
+];
+
+// Seconds a phase may take: enough for slow eccentrics and long pauses
+export const MAX_PHASE_SECONDS = 10;
+
+export function isTempo(value: unknown): value is Tempo {
+    if (typeof value !== 'object' || value === null) return false;
+    const phases = value as Record<string, unknown>;
+    return TEMPO_PHASES.every(({ id }) =>
+        Number.isInteger(phases[id]) && (phases[id] as number) >= 0 && (phases[id] as number) <= MAX_PHASE_SECONDS
+    ) && repDurationMs(value as Tempo) > 0;
+}
+
+// "3-1-2-0" → tempo; null when it is not four whole numbers or every phase is 0
+export function parseTempo(text: string): Tempo | null {
+    const parts = text.trim().split(/\s*[-–/ ]\s*/);
+    if (parts.length !== 4 || !parts.every(p => /^\d+$/.test(p))) return null;
+    const [eccentric, pause, concentric, top] = parts.map(Number);
+    const tempo = { eccentric, pause, concentric, top };
+    return isTempo(tempo) ? tempo : null;
+}
+
+export function formatTempo(tempo: Tempo): string {
+    return TEMPO_PHASES.map(({ id }) => tempo[id]).join('-');
+}
+
+export function repDurationMs(tempo: Tempo): number {
+    return TEMPO_PHASES.reduce((sum, { id }) => sum + tempo[id], 0) * 1000;
+}
+
+// TUT the prescription asks for over a whole set
+export function expectedTutMs(tempo: Tempo, reps: number): number {
+    return repDurationMs(tempo) * reps;
+}
+
+export interface TempoPosition {
+    // 1-based rep being performed
+    rep: number;
+    phase: TempoPhase;
+    // Whole seconds left in the phase, counting the current one
+    secondsLeft: number;
+}
+
+// Where a set following `tempo` is after `elapsedMs` of execution
+export function tempoPosition(tempo: Tempo, elapsedMs: number): TempoPosition {
+    const repMs = repDurationMs(tempo);
+    const rep = Math.floor(elapsedMs / repMs) + 1;
+    let intoRep = elapsedMs % repMs;
+    for (const { id } of TEMPO_PHASES) {
+        const phaseMs = tempo[id] * 1000;
+        if (intoRep < phaseMs) return { rep, phase: id, secondsLeft: Math.ceil((phaseMs - intoRep) / 1000) };
+        intoRep -= phaseMs;
+    }
+    // Unreachable while repMs > 0; keeps the return type total
+    return { rep, phase: 'top', secondsLeft: 0 };
+}
+
+export function tempoPhaseLabel(phase: TempoPhase): string {
+    return TEMPO_PHASES.find(p => p.id === phase)?.label ?? phase;
+}
+
+// Logged TUT against the tempo's: "+6s" slower, "-4s" faster, "±0s" on tempo
+export function formatTutDeviation(tutMs: number, tempo: Tempo, reps: number): string {
+    const seconds = Math.round((tutMs - expectedTutMs(tempo, reps)) / 1000);
+    return seconds === 0 ? '±0s' : `${seconds > 0 ? '+' : ''}${seconds}s`;
+}
+
+// Seconds of countdown before each set's TUT starts; 0 starts it straight away
+export const DEFAULT_COUNTDOWN_SECONDS = 5;
+export const MAX_COUNTDOWN_SECONDS = 30;
+
+const COUNTDOWN_STORAGE_KEY = 'gymtrack_countdown_seconds';
+
+export function getCountdownPreference(): number {
+    const stored = Number(localStorage.getItem(COUNTDOWN_STORAGE_KEY) ?? NaN);
+    return Number.isInteger(stored) && stored >= 0 && stored <= MAX_COUNTDOWN_SECONDS ? stored : DEFAULT_COUNTDOWN_SECONDS;
+}
+
+export function setCountdownPreference(seconds: number) {
+    localStorage.setItem(COUNTDOWN_STORAGE_KEY, String(seconds));
+}
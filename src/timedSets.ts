@@ -0,0 +1,47 @@
+import type { Exercise, ExercisePrescription, SetData } from './db';
+import { formatWeight, type WeightUnit } from './units';
+
+// Timed exercises (planks, holds, carries) aim for a hold time instead of reps. Their sets
+// record `durationMs`, and `distanceM` when the exercise tracks distance; `reps` stays 0.
+// Weight is still logged, for weighted holds and carries, and left at 0 otherwise.
+
+export type ExerciseMode = 'reps' | 'timed';
+
+export const EXERCISE_MODES: { id: ExerciseMode; label: string }[] = [
+    { id: 'reps', label: 'Repeticiones' },
+    { id: 'timed', label: 'Por tiempo' },
+];
+
+export const DEFAULT_TARGET_SECONDS = 30;
+
+// Exercises created before modes existed are rep-based
+export function isTimedExercise(exercise: Pick<Exercise, 'mode'> | undefined): boolean {
+    return exercise?.mode === 'timed';
+}
+
+export function isTimedSet(set: Pick<SetData, 'durationMs'>): boolean {
+    return set.durationMs !== undefined;
+}
+
+export function targetSecondsOf(prescription: Pick<ExercisePrescription, 'targetSeconds'>): number {
+    return prescription.targetSeconds ?? DEFAULT_TARGET_SECONDS;
+}
+
+// 45 → "0:45", 90 → "1:30"
+export function formatSeconds(totalSeconds: number): string {
+    const seconds = Math.round(totalSeconds);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function formatDistance(meters: number): string {
+    return meters >= 1000 ? `${Math.round(meters / 10) / 100}km` : `${meters}m`;
+}
+
+// "80kg × 8" for rep sets; "1:30 · 40m" or "20kg · 1:30" for timed ones
+export function formatSetResult(set: Pick<SetData, 'weight' | 'unit' | 'reps' | 'durationMs' | 'distanceM'>, unit?: WeightUnit): string {
+    if (!isTimedSet(set)) return `${formatWeight(set, unit)} × ${set.reps}`;
+    const parts = [formatSeconds((set.durationMs ?? 0) / 1000)];
+    if (set.distanceM) parts.push(formatDistance(set.distanceM));
+    if (set.weight > 0) parts.unshift(formatWeight(set, unit));
+    return parts.join(' · ');
+}
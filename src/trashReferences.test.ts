@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { Exercise, Session, SetData, WorkoutTemplate } from './db';
+import {
+    removeGroupReference,
+    removeSessionReferences,
+    removeTemplateReference,
+    restoreGroupReference,
+    restoreSessionReferences,
+    restoreTemplateReference,
+} from './trashReferences';
+
+function loggedSet(setNumber: number, startTime: number): SetData {
+    return {
+        setNumber,
+        weight: 60,
+        reps: 8,
+        rpe: 8,
+        technicalFailure: false,
+        tutMs: 30000,
+        restMs: 90000,
+        startTime,
+        endTime: startTime + 30000,
+    };
+}
+
+// An unfinished session with one logged set of each exercise, in order
+function session(...exerciseIds: string[]): Session {
+    return {
+        id: 'session-1',
+        templateId: 'template-1',
+        templateName: 'Pierna',
+        startTime: 0,
+        completed: false,
+        exercises: exerciseIds.map((exerciseId, i) => ({ exerciseId, sets: [loggedSet(1, i * 100_000)] })),
+    };
+}
+
+function logSet(current: Session, exerciseIndex: number, startTime: number): Session {
+    return {
+        ...current,
+        exercises: current.exercises.map((ex, i) =>
+            i === exerciseIndex ? { ...ex, sets: [...ex.sets, loggedSet(ex.sets.length + 1, startTime)] } : ex
+        ),
+    };
+}
+
+describe('restoring an exercise deleted from a session that was edited since', () => {
+    it('puts a cascaded entry back and keeps the sets logged and the finish', () => {
+        const { record, changes } = removeSessionReferences(session('squat', 'lunge', 'curl'), 'lunge');
+        expect(record.exercises.map(e => e.exerciseId)).toEqual(['squat', 'curl']);
+
+        const edited = { ...logSet(record, 1, 500_000), completed: true, endTime: 600_000 };
+        const restored = restoreSessionReferences(edited, changes);
+
+        expect(restored.exercises.map(e => e.exerciseId)).toEqual(['squat', 'lunge', 'curl']);
+        expect(restored.exercises[1].sets).toEqual([loggedSet(1, 100_000)]);
+        expect(restored.exercises[2].sets).toHaveLength(2);
+        expect(restored).toMatchObject({ completed: true, endTime: 600_000 });
+    });
+
+    it('points a reassigned entry back, with the sets logged on it since', () => {
+        const { record, changes } = removeSessionReferences(session('squat', 'lunge'), 'lunge', 'split-squat');
+        const edited = logSet(record, 1, 500_000);
+
+        const restored = restoreSessionReferences(edited, changes);
+
+        expect(restored.exercises.map(e => e.exerciseId)).toEqual(['squat', 'lunge']);
+        expect(restored.exercises[1].sets).toHaveLength(2);
+    });
+
+    it('finds a reassigned entry by its sets after the plan was reordered', () => {
+        const { record, changes } = removeSessionReferences(session('squat', 'lunge'), 'lunge', 'split-squat');
+        const reordered = { ...record, exercises: [record.exercises[1], record.exercises[0]] };
+
+        const restored = restoreSessionReferences(reordered, changes);
+
+        expect(restored.exercises.map(e => e.exerciseId)).toEqual(['lunge', 'squat']);
+    });
+});
+
+describe('restoring template and muscle group references', () => {
+    const template: WorkoutTemplate = {
+        id: 'template-1',
+        name: 'Pierna',
+        exercises: [
+            { exerciseId: 'squat', sets: 3, targetReps: 5, restSeconds: 180 },
+            { exerciseId: 'lunge', sets: 2, targetReps: 10, restSeconds: 90 },
+        ],
+    };
+
+    it('splits a merged entry back, keeping later edits to the target', () => {
+        const { record, change } = removeTemplateReference(template, 'lunge', 'squat')!;
+        expect(record.exercises).toHaveLength(1);
+        expect(record.exercises[0].sets).toBe(5);
+
+        const edited = { ...record, exercises: [{ ...record.exercises[0], restSeconds: 240 }] };
+        const restored = restoreTemplateReference(edited, change);
+
+        expect(restored.exercises).toEqual([
+            { ...template.exercises[0], restSeconds: 240, setTypes: undefined, setPrescriptions: undefined },
+            template.exercises[1],
+        ]);
+    });
+
+    it('takes back the group a reassign added', () => {
+        const exercise: Exercise = { id: 'squat', name: 'Sentadilla', muscleGroupIds: ['quads', 'glutes'] };
+        const { record, change } = removeGroupReference(exercise, 'quads', 'legs');
+        expect(record.muscleGroupIds).toEqual(['legs', 'glutes']);
+
+        const restored = restoreGroupReference({ ...record, name: 'Sentadilla trasera' }, 'quads', change);
+
+        expect(restored).toEqual({ ...exercise, name: 'Sentadilla trasera' });
+    });
+});
@@ -0,0 +1,145 @@
+import type { Exercise, ReferenceChange, Session, TemplateExercise, WorkoutTemplate } from './db';
+
+// Deleting a muscle group or an exercise with cascade or reassign changes the records that
+// point at it. The trash keeps what changed in each one rather than a copy of the record, so a
+// restore puts the references back into the records as they are by then: sets logged, a
+// session finished or a template reworked after the delete all stay.
+
+type ChangeIn<S extends ReferenceChange['store']> = Extract<ReferenceChange, { store: S }>;
+
+function insertAt<T>(items: T[], index: number, item: T): T[] {
+    const at = Math.min(index, items.length);
+    return [...items.slice(0, at), item, ...items.slice(at)];
+}
+
+// One template entry out of two for the same exercise, as left by reassigning one exercise to
+// another the template already has: `kept`'s sets, then `merged`'s, each with its own planned
+// type and reps
+function mergeTemplateEntries(kept: TemplateExercise, merged: TemplateExercise): TemplateExercise {
+    const planned = (entry: TemplateExercise) => Array.from({ length: entry.sets }, (_, i) => ({
+        type: entry.setTypes?.[i] ?? 'working',
+        prescription: entry.setPrescriptions?.[i] ?? { minReps: entry.targetReps, maxReps: entry.targetReps },
+    }));
+    const sets = [...planned(kept), ...planned(merged)];
+    const perSet = kept.setPrescriptions || merged.setPrescriptions || kept.targetReps !== merged.targetReps;
+    return {
+        ...kept,
+        sets: sets.length,
+        ...((kept.setTypes || merged.setTypes) && { setTypes: sets.map(set => set.type) }),
+        ...(perSet && { setPrescriptions: sets.map(set => set.prescription) }),
+    };
+}
+
+// Muscle groups: the exercise loses the group, or gets targetId in its place when it does not
+// have that one already
+export function removeGroupReference(
+    exercise: Exercise,
+    groupId: string,
+    targetId?: string
+): { record: Exercise; change: ChangeIn<'exercises'> } {
+    const index = exercise.muscleGroupIds.indexOf(groupId);
+    const added = targetId !== undefined && !exercise.muscleGroupIds.includes(targetId) ? targetId : undefined;
+    const muscleGroupIds = exercise.muscleGroupIds.flatMap(g => g !== groupId ? [g] : added ? [added] : []);
+    return {
+        record: { ...exercise, muscleGroupIds },
+        change: { store: 'exercises', id: exercise.id, index, ...(added && { added }) },
+    };
+}
+
+export function restoreGroupReference(exercise: Exercise, groupId: string, change: ChangeIn<'exercises'>): Exercise {
+    const muscleGroupIds = exercise.muscleGroupIds.filter(g => g !== change.added);
+    return {
+        ...exercise,
+        muscleGroupIds: muscleGroupIds.includes(groupId) ? muscleGroupIds : insertAt(muscleGroupIds, change.index, groupId),
+    };
+}
+
+// Templates: the entry is dropped, taken over by targetId, or merged into targetId's entry
+// when the template has both. null when the template does not use the exercise.
+export function removeTemplateReference(
+    template: WorkoutTemplate,
+    exerciseId: string,
+    targetId?: string
+): { record: WorkoutTemplate; change: ChangeIn<'templates'> } | null {
+    const index = template.exercises.findIndex(te => te.exerciseId === exerciseId);
+    if (index < 0) return null;
+    const entry = template.exercises[index];
+    const rest = template.exercises.filter((_, i) => i !== index);
+    const existing = targetId === undefined ? undefined : rest.find(te => te.exerciseId === targetId);
+
+    let exercises = rest;
+    if (existing) {
+        exercises = rest.map(te => te === existing ? mergeTemplateEntries(te, entry) : te);
+    } else if (targetId !== undefined) {
+        exercises = template.exercises.map((te, i) => i === index ? { ...te, exerciseId: targetId } : te);
+    }
+    return {
+        record: { ...template, exercises },
+        change: {
+            store: 'templates',
+            id: template.id,
+            index,
+            entry,
+            ...(targetId !== undefined && { targetId }),
+            ...(existing && { merged: existing }),
+        },
+    };
+}
+
+// A template that dropped the target's entry since gets nothing back from a reassign
+export function restoreTemplateReference(template: WorkoutTemplate, change: ChangeIn<'templates'>): WorkoutTemplate {
+    const { entry, targetId, merged } = change;
+    if (template.exercises.some(te => te.exerciseId === entry.exerciseId)) return template;
+
+    if (targetId !== undefined && !merged) {
+        return {
+            ...template,
+            exercises: template.exercises.map(te => te.exerciseId === targetId ? { ...te, exerciseId: entry.exerciseId } : te),
+        };
+    }
+    // Undoing a merge gives the target's entry back the sets it had planned before it
+    const exercises = merged
+        ? template.exercises.map(te => te.exerciseId === targetId
+            ? { ...te, sets: merged.sets, setTypes: merged.setTypes, setPrescriptions: merged.setPrescriptions }
+            : te)
+        : template.exercises;
+    if (merged && !exercises.some(te => te.exerciseId === targetId)) return template;
+    return { ...template, exercises: insertAt(exercises, change.index, entry) };
+}
+
+// Sessions: every entry of the exercise, with its sets, is dropped or taken over by targetId
+export function removeSessionReferences(
+    session: Session,
+    exerciseId: string,
+    targetId?: string
+): { record: Session; changes: ChangeIn<'sessions'>[] } {
+    const changes = session.exercises.flatMap((entry, index): ChangeIn<'sessions'>[] => entry.exerciseId === exerciseId
+        ? [{ store: 'sessions', id: session.id, index, entry, ...(targetId !== undefined && { targetId }) }]
+        : []);
+    const exercises = targetId === undefined
+        ? session.exercises.filter(e => e.exerciseId !== exerciseId)
+        : session.exercises.map(e => e.exerciseId === exerciseId ? { ...e, exerciseId: targetId } : e);
+    return { record: { ...session, exercises }, changes };
+}
+
+// Changes in the order they were taken. A reassigned entry is found where it was, or else by
+// its first set, in case the plan was reordered since; one that cannot be found stays as it is.
+export function restoreSessionReferences(session: Session, changes: ChangeIn<'sessions'>[]): Session {
+    let exercises = session.exercises;
+    for (const change of changes) {
+        const { entry, targetId, index } = change;
+        if (targetId === undefined) {
+            exercises = insertAt(exercises, index, entry);
+            continue;
+        }
+        const first = entry.sets[0];
+        const isRenamed = (e: Session['exercises'][number]) =>
+            e.exerciseId === targetId && (!first || e.sets[0]?.startTime === first.startTime);
+        const at = exercises[index] && isRenamed(exercises[index])
+            ? index
+            : first ? exercises.findIndex(isRenamed) : -1;
+        if (at < 0) continue;
+        exercises = exercises.map((e, i) => i === at ? { ...e, exerciseId: entry.exerciseId } : e);
+    }
+    return { ...session, exercises };
+}
@@ -0,0 +1,71 @@
+import type { Exercise, SetData } from './db';
+
+// Plate numbers are the pin positions on selectorised machines: they cannot be converted to
+// mass, so sets logged in plates are only ever shown as plates.
+export type WeightUnit = 'kg' | 'lb' | 'plate';
+
+export const WEIGHT_UNITS: { id: WeightUnit; label: string; short: string }[] = [
+    { id: 'kg', label: 'Kilogramos', short: 'kg' },
+    { id: 'lb', label: 'Libras', short: 'lb' },
+    { id: 'plate', label: 'Placas (máquina)', short: 'placa' },
+];
+
+export const LB_TO_KG = 0.45359237;
+
+// Smallest load change worth typing or prescribing in each unit
+export const WEIGHT_STEPS: Record<WeightUnit, number> = { kg: 2.5, lb: 5, plate: 1 };
+
+const WEIGHT_UNIT_STORAGE_KEY = 'gymtrack_weight_unit';
+
+function isWeightUnit(value: unknown): value is WeightUnit {
+    return WEIGHT_UNITS.some(u => u.id === value);
+}
+
+// The preference only drives input and display; every set stores the unit it was logged in,
+// so changing it never rewrites history
+export function getWeightUnitPreference(): WeightUnit {
+    const stored = localStorage.getItem(WEIGHT_UNIT_STORAGE_KEY);
+    return isWeightUnit(stored) ? stored : 'kg';
+}
+
+export function setWeightUnitPreference(unit: WeightUnit) {
+    localStorage.setItem(WEIGHT_UNIT_STORAGE_KEY, unit);
+}
+
+// Unit used to log and show an exercise: its own override, else the global preference
+export function exerciseUnit(exercise: Pick<Exercise, 'weightUnit'> | undefined, preference = getWeightUnitPreference()): WeightUnit {
+    return exercise?.weightUnit ?? preference;
+}
+
+// Sets logged before units existed have no unit and are kilograms
+export function setUnit(set: Pick<SetData, 'unit'>): WeightUnit {
+    return set.unit ?? 'kg';
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+// null when either side is plates and they differ
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number | null {
+    if (from === to) return value;
+    if (from === 'plate' || to === 'plate') return null;
+    return round(from === 'kg' ? value / LB_TO_KG : value * LB_TO_KG);
+}
+
+// Mass in kg, for stats that add weights up; null for plates
+export function weightInKg(set: Pick<SetData, 'weight' | 'unit'>): number | null {
+    return convertWeight(set.weight, setUnit(set), 'kg');
+}
+
+export function unitShort(unit: WeightUnit): string {
+    return WEIGHT_UNITS.find(u => u.id === unit)?.short ?? unit;
+}
+
+// "80kg", "176.37lb" or "placa 7". Converts to `unit` when possible and otherwise keeps the
+// unit the set was logged in.
+export function formatWeight(set: Pick<SetData, 'weight' | 'unit'>, unit: WeightUnit = setUnit(set)): string {
+    const converted = convertWeight(set.weight, setUnit(set), unit);
+    const [value, shown] = converted === null ? [set.weight, setUnit(set)] : [converted, unit];
+    return shown === 'plate' ? `placa ${value}` : `${value}${unitShort(shown)}`;
+}
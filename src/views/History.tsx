@@ -1,32 +1,71 @@
-import { useEffect, useState } from 'react'
-import { db, type Session, type Exercise } from '../db'
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { db, TRASH_RETENTION_DAYS, type Session, type Exercise } from '../db'
 import Modal from '../components/Modal'
+import HistoryImportModal from '../components/HistoryImportModal'
+import UndoToast, { type UndoItem } from '../components/UndoToast'
+import SessionSetsEditor from '../components/SessionSetsEditor'
+import SetTypeFilter from '../components/SetTypeFilter'
+import { CSV_LAYOUTS, sessionsToCsv, type CsvLayout } from '../csv'
+import { downloadFile } from '../download'
+import { setUnit } from '../units'
+import { DEFAULT_SET_TYPE_FILTER, filterSessionSets, matchesSetTypes, setTypeOf, type SetType } from '../setTypes'
+import { isTimedSet } from '../timedSets'
+import { formatTempo } from '../tempo'
+import { activeDurationMs } from '../sessionPauses'
+import { exerciseIdsOf, recomputeProgression } from '../progressionHistory'
+
+const PAGE_SIZE = 20
+
+type ExportFormat = 'json' | CsvLayout
 
 export default function History() {
+    const navigate = useNavigate()
     const [sessions, setSessions] = useState<Session[]>([])
+    const [totalSessions, setTotalSessions] = useState(0)
+    const [pagesLoaded, setPagesLoaded] = useState(1)
+    const [allSessions, setAllSessions] = useState<Session[]>([])
     const [exercises, setExercises] = useState<Exercise[]>([])
     const [showExportModal, setShowExportModal] = useState(false)
     const [selectedSession, setSelectedSession] = useState<Session | null>(null)
     const [exportAll, setExportAll] = useState(false)
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('json')
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
     const [sessionToDelete, setSessionToDelete] = useState<Session | null>(null)
+    const [showImportModal, setShowImportModal] = useState(false)
+    const [undo, setUndo] = useState<UndoItem | null>(null)
+    const [detailSession, setDetailSession] = useState<Session | null>(null)
+    const [setTypes, setSetTypes] = useState<SetType[]>(DEFAULT_SET_TYPE_FILTER)
+    const closeUndo = useCallback(() => setUndo(null), [])
 
     useEffect(() => {
         loadData()
     }, [])
 
-    async function loadData() {
-        const [allSessions, allExercises] = await Promise.all([
-            db.getAllSessions(),
+    async function loadData(pages = 1) {
+        const [page, allExercises] = await Promise.all([
+            db.querySessions({ completed: true, pageSize: PAGE_SIZE * pages }),
             db.getAllExercises()
         ])
-        const completed = allSessions
-            .filter(s => s.completed)
-            .sort((a, b) => b.startTime - a.startTime)
-        setSessions(completed)
+        setSessions(page.sessions)
+        setTotalSessions(page.total)
         setExercises(allExercises)
     }
 
+    // Carries on from where the list ends rather than by offset, so sessions added or removed
+    // above it since do not shift the next page. Those sharing the last start time come again
+    // and are left out.
+    async function loadMore() {
+        const last = sessions[sessions.length - 1]
+        if (!last) return
+        const sameTime = sessions.filter(s => s.startTime === last.startTime)
+        const page = await db.querySessions({ completed: true, to: last.startTime, pageSize: PAGE_SIZE + sameTime.length })
+        const loaded = new Set(sameTime.map(s => s.id))
+        setSessions([...sessions, ...page.sessions.filter(s => !loaded.has(s.id))])
+        setTotalSessions(sessions.length - sameTime.length + page.total)
+        setPagesLoaded(prev => prev + 1)
+    }
+
     function formatDate(timestamp: number) {
         return new Date(timestamp).toLocaleDateString('es-ES', {
             weekday: 'short',
@@ -37,14 +76,16 @@ export default function History() {
         })
     }
 
-    function formatDuration(start: number, end?: number) {
-        if (!end) return '--'
-        const mins = Math.floor((end - start) / 60000)
+    // Paused time is left out
+    function formatDuration(session: Session) {
+        if (!session.endTime) return '--'
+        const mins = Math.floor(activeDurationMs(session) / 60000)
         return `${mins} min`
     }
 
+    // Only the set types selected in the export filter count, so warm-ups stay out by default
     function getTotalSets(session: Session) {
-        return session.exercises.reduce((sum, ex) => sum + ex.sets.length, 0)
+        return session.exercises.reduce((sum, ex) => sum + ex.sets.filter(set => matchesSetTypes(set, setTypes)).length, 0)
     }
 
     function getExerciseName(exerciseId: string): string {
@@ -55,12 +96,19 @@ export default function History() {
         return {
             workout: session.templateName,
             date: new Date(session.startTime).toISOString().split('T')[0],
-            duration_minutes: session.endTime ? Math.round((session.endTime - session.startTime) / 60000) : 0,
-            exercises: session.exercises.map(ex => ({
+            duration_minutes: session.endTime ? Math.round(activeDurationMs(session) / 60000) : 0,
+            exercises: filterSessionSets(session, setTypes).exercises.map(ex => ({
                 name: getExerciseName(ex.exerciseId),
+                tempo: ex.prescription?.tempo && formatTempo(ex.prescription.tempo),
                 sets: ex.sets.map(s => ({
-                    weight_kg: s.weight,
-                    reps: s.reps,
+                    set_number: s.setNumber,
+                    set_type: setTypeOf(s),
+                    parent_set: s.parentSetNumber,
+                    weight: s.weight,
+                    weight_unit: setUnit(s),
+                    reps: isTimedSet(s) ? undefined : s.reps,
+                    duration_seconds: s.durationMs !== undefined ? Math.round(s.durationMs / 1000) : undefined,
+                    distance_m: s.distanceM,
                     rpe: s.rpe,
                     tut_seconds: Math.round(s.tutMs / 1000),
                     rest_seconds: Math.round(s.restMs / 1000),
@@ -72,7 +120,7 @@ export default function History() {
 
     function generateExportJSON(): string {
         if (exportAll) {
-            const data = sessions.map(formatSessionForAI)
+            const data = allSessions.map(formatSessionForAI)
             return JSON.stringify(data, null, 2)
         } else if (selectedSession) {
             return JSON.stringify(formatSessionForAI(selectedSession), null, 2)
@@ -80,14 +128,34 @@ export default function History() {
         return ''
     }
 
+    function generateExport(): string {
+        if (exportFormat === 'json') return generateExportJSON()
+        const exported = exportAll ? allSessions : selectedSession ? [selectedSession] : []
+        return sessionsToCsv(exported.map(session => filterSessionSets(session, setTypes)), exportFormat, getExerciseName)
+    }
+
+    function downloadExport() {
+        const isJson = exportFormat === 'json'
+        const date = new Date().toISOString().split('T')[0]
+        downloadFile(
+            `gymtrack-${exportAll ? 'historial' : 'sesion'}-${date}.${isJson ? 'json' : 'csv'}`,
+            generateExport(),
+            isJson ? 'application/json' : 'text/csv'
+        )
+    }
+
     async function copyToClipboard() {
-        await navigator.clipboard.writeText(generateExportJSON())
+        await navigator.clipboard.writeText(generateExport())
         if ('vibrate' in navigator) {
             navigator.vibrate(100)
         }
     }
 
-    function openExportModal(session: Session | null, all: boolean) {
+    async function openExportModal(session: Session | null, all: boolean) {
+        if (all) {
+            const everything = await db.querySessions({ completed: true })
+            setAllSessions(everything.sessions)
+        }
         setSelectedSession(session)
         setExportAll(all)
         setShowExportModal(true)
@@ -100,25 +168,51 @@ export default function History() {
 
     async function deleteSession() {
         if (!sessionToDelete) return
-        await db.deleteSession(sessionToDelete.id)
+        const trashId = await db.deleteSession(sessionToDelete.id)
+        await recomputeProgression(exerciseIdsOf([sessionToDelete]))
         setShowDeleteConfirm(false)
         setSessionToDelete(null)
-        await loadData()
+        setUndo({ trashId, message: `"${sessionToDelete.templateName}" movida a la papelera` })
+        await loadData(pagesLoaded)
+    }
+
+    async function saveCorrectedSession(updated: Session) {
+        await db.saveSession(updated)
+        // An exercise swapped out of the session needs its history replayed too
+        await recomputeProgression(exerciseIdsOf(detailSession ? [detailSession, updated] : [updated]))
+        setDetailSession(updated)
+        setSessions(prev => prev.map(s => s.id === updated.id ? updated : s))
     }
 
     return (
         <div className="page">
             <header className="page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <h1 className="page-title">Historial</h1>
-                {sessions.length > 0 && (
+                <div className="flex gap-sm">
                     <button
                         className="btn-secondary"
                         style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
-                        onClick={() => openExportModal(null, true)}
+                        onClick={() => navigate('/trash')}
                     >
-                        📋 Exportar todo
+                        🗑️
                     </button>
-                )}
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
+                        onClick={() => setShowImportModal(true)}
+                    >
+                        📥 Importar
+                    </button>
+                    {sessions.length > 0 && (
+                        <button
+                            className="btn-secondary"
+                            style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
+                            onClick={() => openExportModal(null, true)}
+                        >
+                            📋 Exportar todo
+                        </button>
+                    )}
+                </div>
             </header>
 
             {sessions.length === 0 ? (
@@ -129,10 +223,10 @@ export default function History() {
                 <div className="list">
                     {sessions.map(session => (
                         <div key={session.id} className="list-item">
-                            <div className="list-item-content">
+                            <div className="list-item-content" style={{ cursor: 'pointer' }} onClick={() => setDetailSession(session)}>
                                 <div className="list-item-title">{session.templateName}</div>
                                 <div className="list-item-subtitle">
-                                    {formatDate(session.startTime)} · {formatDuration(session.startTime, session.endTime)} · {getTotalSets(session)} series
+                                    {formatDate(session.startTime)} · {formatDuration(session)} · {getTotalSets(session)} series
                                 </div>
                             </div>
                             <div className="flex gap-sm">
@@ -153,6 +247,11 @@ export default function History() {
                             </div>
                         </div>
                     ))}
+                    {sessions.length < totalSessions && (
+                        <button className="btn-action btn-secondary" onClick={loadMore}>
+                            Cargar más ({totalSessions - sessions.length})
+                        </button>
+                    )}
                 </div>
             )}
 
@@ -172,7 +271,7 @@ export default function History() {
                             <div className="summary-stat">
                                 <span className="summary-stat-label">Duración</span>
                                 <span className="summary-stat-value">
-                                    {formatDuration(selectedSession.startTime, selectedSession.endTime)}
+                                    {formatDuration(selectedSession)}
                                 </span>
                             </div>
                             <div className="summary-stat">
@@ -184,25 +283,69 @@ export default function History() {
 
                     {exportAll && (
                         <p className="text-muted" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
-                            {sessions.length} sesiones en total
+                            {allSessions.length} sesiones en total
                         </p>
                     )}
 
+                    <select
+                        value={exportFormat}
+                        onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                        style={{ marginBottom: 'var(--spacing-sm)' }}
+                    >
+                        <option value="json">JSON (análisis por IA)</option>
+                        {CSV_LAYOUTS.map(layout => (
+                            <option key={layout.id} value={layout.id}>{layout.label}</option>
+                        ))}
+                    </select>
+                    <SetTypeFilter value={setTypes} onChange={setSetTypes} />
                     <p className="text-muted" style={{ fontSize: '0.75rem', marginBottom: 'var(--spacing-sm)' }}>
-                        JSON optimizado para análisis por IA:
+                        {exportFormat === 'json' ? 'JSON optimizado para análisis por IA:' : 'Una fila por serie, para hojas de cálculo y otras apps:'}
                     </p>
                     <textarea
                         readOnly
-                        value={generateExportJSON()}
+                        value={generateExport()}
                         style={{ marginBottom: 'var(--spacing-md)' }}
                     />
 
                     <button className="btn-action btn-primary" onClick={copyToClipboard}>
                         📋 Copiar al Portapapeles
                     </button>
+                    <button
+                        className="btn-action btn-secondary"
+                        style={{ marginTop: 'var(--spacing-xs)' }}
+                        onClick={downloadExport}
+                    >
+                        ⬇️ Descargar archivo
+                    </button>
                 </div>
             </Modal>
 
+            <HistoryImportModal
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+                onImported={() => loadData(pagesLoaded)}
+            />
+
+            {/* Session Detail Modal */}
+            <Modal
+                isOpen={detailSession !== null}
+                onClose={() => setDetailSession(null)}
+                title={detailSession?.templateName || ''}
+            >
+                {detailSession && (
+                    <div>
+                        <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-sm)' }}>
+                            {formatDate(detailSession.startTime)} · {formatDuration(detailSession)} · {getTotalSets(detailSession)} series
+                        </p>
+                        <SessionSetsEditor
+                            session={detailSession}
+                            exercises={exercises}
+                            onChange={saveCorrectedSession}
+                        />
+                    </div>
+                )}
+            </Modal>
+
             {/* Delete Confirmation Modal */}
             <Modal
                 isOpen={showDeleteConfirm}
@@ -221,8 +364,8 @@ export default function History() {
                             </p>
                         </div>
                     )}
-                    <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-md)', color: 'var(--accent-danger)' }}>
-                        Esta acción no se puede deshacer.
+                    <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-md)' }}>
+                        Se moverá a la papelera y podrás recuperarla durante {TRASH_RETENTION_DAYS} días.
                     </p>
                     <div className="flex gap-sm">
                         <button
@@ -240,6 +383,8 @@ export default function History() {
                     </div>
                 </div>
             </Modal>
+
+            <UndoToast item={undo} onClose={closeUndo} onRestored={() => loadData(pagesLoaded)} />
         </div>
     )
 }
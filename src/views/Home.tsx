@@ -1,4 +1,17 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { APP_VERSION } from '../backup'
+import { db, type Session } from '../db'
+import { sessionPath } from '../activeSessions'
+import ActiveSessionsPanel from '../components/ActiveSessionsPanel'
+import UndoToast, { type UndoItem } from '../components/UndoToast'
+import {
+    WEIGHT_UNITS,
+    getWeightUnitPreference,
+    setWeightUnitPreference,
+    type WeightUnit
+} from '../units'
+import { MAX_COUNTDOWN_SECONDS, getCountdownPreference, setCountdownPreference } from '../tempo'
 
 interface BeforeInstallPromptEvent extends Event {
     prompt: () => Promise<void>
@@ -13,6 +26,20 @@ export default function Home() {
     const [showInstructions, setShowInstructions] = useState(false)
     const [updateAvailable, setUpdateAvailable] = useState(false)
     const [isChecking, setIsChecking] = useState(false)
+    const [weightUnit, setWeightUnit] = useState(getWeightUnitPreference)
+    const [countdownSeconds, setCountdownSeconds] = useState(getCountdownPreference)
+    const navigate = useNavigate()
+    const [activeSessions, setActiveSessions] = useState<Session[]>([])
+    const [sessionsLoadedAt, setSessionsLoadedAt] = useState(0)
+    const [undo, setUndo] = useState<UndoItem | null>(null)
+    const closeUndo = useCallback(() => setUndo(null), [])
+
+    useEffect(() => {
+        db.getActiveSessions().then(sessions => {
+            setActiveSessions(sessions)
+            setSessionsLoadedAt(Date.now())
+        })
+    }, [])
 
     useEffect(() => {
         const handleBeforeInstall = (e: Event) => {
@@ -93,6 +120,22 @@ export default function Home() {
         }
     }
 
+    async function loadSessions() {
+        setActiveSessions(await db.getActiveSessions())
+        setSessionsLoadedAt(Date.now())
+    }
+
+    function changeWeightUnit(unit: WeightUnit) {
+        setWeightUnitPreference(unit)
+        setWeightUnit(unit)
+    }
+
+    function changeCountdown(seconds: number) {
+        const clamped = Math.min(MAX_COUNTDOWN_SECONDS, Math.max(0, seconds))
+        setCountdownPreference(clamped)
+        setCountdownSeconds(clamped)
+    }
+
     const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent)
     const isAndroid = /Android/.test(navigator.userAgent)
     const isChrome = /Chrome/.test(navigator.userAgent) && !/Edge|Edg/.test(navigator.userAgent)
@@ -146,6 +189,14 @@ export default function Home() {
                 </p>
             </div>
 
+            <ActiveSessionsPanel
+                sessions={activeSessions}
+                now={sessionsLoadedAt}
+                onResume={session => navigate(sessionPath(session))}
+                onChanged={loadSessions}
+                onDiscarded={setUndo}
+            />
+
             {/* Update Section */}
             <div className="card" style={{ marginBottom: 'var(--spacing-md)' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--spacing-sm)' }}>
@@ -179,6 +230,35 @@ export default function Home() {
                 )}
             </div>
 
+            {/* Settings Section */}
+            <div className="card" style={{ marginBottom: 'var(--spacing-md)' }}>
+                <p style={{ fontWeight: 600, marginBottom: 'var(--spacing-sm)' }}>Unidad de peso</p>
+                <select
+                    value={weightUnit}
+                    onChange={e => changeWeightUnit(e.target.value as WeightUnit)}
+                    style={{ marginBottom: 'var(--spacing-xs)' }}
+                >
+                    {WEIGHT_UNITS.map(unit => (
+                        <option key={unit.id} value={unit.id}>{unit.label}</option>
+                    ))}
+                </select>
+                <p className="text-muted" style={{ fontSize: '0.75rem' }}>
+                    Cada serie guarda la unidad con la que se registró; cambiarla no modifica el historial.
+                </p>
+                <p style={{ fontWeight: 600, margin: 'var(--spacing-md) 0 var(--spacing-sm)' }}>Cuenta atrás antes de cada serie (s)</p>
+                <input
+                    type="number"
+                    value={countdownSeconds}
+                    onChange={e => changeCountdown(parseInt(e.target.value) || 0)}
+                    min={0}
+                    max={MAX_COUNTDOWN_SECONDS}
+                    style={{ marginBottom: 'var(--spacing-xs)' }}
+                />
+                <p className="text-muted" style={{ fontSize: '0.75rem' }}>
+                    Con 0 el tiempo bajo tensión empieza nada más pulsar "Iniciar Serie".
+                </p>
+            </div>
+
             {/* Install Section */}
             {!hideInstall && (
                 <div className="card" style={{ marginBottom: 'var(--spacing-md)' }}>
@@ -243,8 +323,10 @@ export default function Home() {
 
             {/* Version Info */}
             <p className="text-muted text-center" style={{ fontSize: '0.7rem', marginTop: 'var(--spacing-lg)' }}>
-                v1.0.0
+                v{APP_VERSION}
             </p>
+
+            <UndoToast item={undo} onClose={closeUndo} onRestored={loadSessions} />
         </div>
     )
 }
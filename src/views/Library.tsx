@@ -1,23 +1,42 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import {
     db,
     generateId,
     type MuscleGroup,
     type Exercise,
     type WorkoutTemplate,
-    type TemplateExercise
+    type TemplateExercise,
+    type ExerciseGroup,
+    type ExerciseGroupType,
+    type ProgressionRule,
+    type DeleteStrategy,
+    type LibraryData
 } from '../db'
 import Modal from '../components/Modal'
+import DeleteUsageModal from '../components/DeleteUsageModal'
+import BackupPanel from '../components/BackupPanel'
+import ImportPreview from '../components/ImportPreview'
+import ProgressionRuleEditor from '../components/ProgressionRuleEditor'
+import SetPrescriptionEditor from '../components/SetPrescriptionEditor'
+import TempoInput from '../components/TempoInput'
+import UndoToast, { type UndoItem } from '../components/UndoToast'
+import {
+    validateLibraryExport,
+    diffLibrary,
+    buildImportPlan,
+    type ImportIssue,
+    type ImportItem,
+    type ImportResolution
+} from '../libraryImport'
+import { WEIGHT_UNITS, exerciseUnit, unitShort, type WeightUnit } from '../units'
+import { EXERCISE_MODES, isTimedExercise, targetSecondsOf, type ExerciseMode } from '../timedSets'
+import { GROUP_TYPE_LABELS, linkToPrevious, normalizeGroups, unlinkFromPrevious, type GroupedExercises } from '../exerciseGroups'
 
 type Tab = 'groups' | 'exercises' | 'templates'
 
-interface LibraryExport {
-    muscleGroups: MuscleGroup[]
-    exercises: Exercise[]
-    templates: WorkoutTemplate[]
-}
-
 export default function Library() {
+    const navigate = useNavigate()
     const [activeTab, setActiveTab] = useState<Tab>('groups')
     const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([])
     const [exercises, setExercises] = useState<Exercise[]>([])
@@ -25,24 +44,36 @@ export default function Library() {
     const [showExportModal, setShowExportModal] = useState(false)
     const [importData, setImportData] = useState('')
     const [importError, setImportError] = useState('')
-
-    useEffect(() => {
-        loadData()
-    }, [])
-
-    async function loadData() {
-        const [groups, exs, temps] = await Promise.all([
+    const [importIssues, setImportIssues] = useState<ImportIssue[]>([])
+    const [importItems, setImportItems] = useState<ImportItem[] | null>(null)
+    const [importResolutions, setImportResolutions] = useState<Record<string, ImportResolution>>({})
+    const [undo, setUndo] = useState<UndoItem | null>(null)
+    const closeUndo = useCallback(() => setUndo(null), [])
+
+    function fetchLibrary() {
+        return Promise.all([
             db.getAllMuscleGroups(),
             db.getAllExercises(),
             db.getAllTemplates()
         ])
+    }
+
+    function showLibrary([groups, exs, temps]: [MuscleGroup[], Exercise[], WorkoutTemplate[]]) {
         setMuscleGroups(groups)
         setExercises(exs)
         setTemplates(temps)
     }
 
+    useEffect(() => {
+        fetchLibrary().then(showLibrary)
+    }, [])
+
+    async function loadData() {
+        showLibrary(await fetchLibrary())
+    }
+
     function generateExportJSON(): string {
-        const data: LibraryExport = {
+        const data: LibraryData = {
             muscleGroups,
             exercises,
             templates
@@ -57,50 +88,75 @@ export default function Library() {
         }
     }
 
-    async function handleImport() {
+    // Step 1: validate and diff against the local library, nothing is written yet
+    function handleImport() {
         setImportError('')
+        setImportIssues([])
+        let raw: unknown
         try {
-            const data: LibraryExport = JSON.parse(importData)
-
-            // Validate structure
-            if (!data.muscleGroups || !data.exercises || !data.templates) {
-                throw new Error('Estructura JSON inválida')
-            }
-
-            // Import muscle groups
-            for (const group of data.muscleGroups) {
-                await db.saveMuscleGroup(group)
-            }
-
-            // Import exercises
-            for (const exercise of data.exercises) {
-                await db.saveExercise(exercise)
-            }
+            raw = JSON.parse(importData)
+        } catch {
+            setImportError('Error al importar: JSON inválido')
+            return
+        }
 
-            // Import templates
-            for (const template of data.templates) {
-                await db.saveTemplate(template)
-            }
+        const local: LibraryData = { muscleGroups, exercises, templates }
+        const result = validateLibraryExport(raw, local)
+        if (!result.ok) {
+            setImportError('El archivo tiene errores, no se ha importado nada:')
+            setImportIssues(result.issues)
+            return
+        }
+        setImportResolutions({})
+        setImportItems(diffLibrary(result.data, local))
+    }
 
+    // Step 2: write the reviewed items
+    async function confirmImport() {
+        if (!importItems) return
+        try {
+            await db.importLibrary(buildImportPlan(importItems, importResolutions))
             await loadData()
+            cancelImport()
             setImportData('')
             setShowExportModal(false)
         } catch (e) {
-            setImportError('Error al importar: ' + (e instanceof Error ? e.message : 'JSON inválido'))
+            setImportError('Error al importar: ' + (e instanceof Error ? e.message : String(e)))
         }
     }
 
+    function cancelImport() {
+        setImportItems(null)
+        setImportResolutions({})
+    }
+
+    function closeDataModal() {
+        setShowExportModal(false)
+        setImportError('')
+        setImportIssues([])
+        cancelImport()
+    }
+
     return (
         <div className="page">
             <header className="page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <h1 className="page-title">Biblioteca</h1>
-                <button
-                    className="btn-secondary"
-                    style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
-                    onClick={() => setShowExportModal(true)}
-                >
-                    📦 Datos
-                </button>
+                <div className="flex gap-sm">
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
+                        onClick={() => navigate('/trash')}
+                    >
+                        🗑️
+                    </button>
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
+                        onClick={() => setShowExportModal(true)}
+                    >
+                        📦 Datos
+                    </button>
+                </div>
             </header>
 
             <div className="tabs" style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-lg)' }}>
@@ -125,6 +181,7 @@ export default function Library() {
                 <MuscleGroupsTab
                     groups={muscleGroups}
                     onUpdate={loadData}
+                    onDeleted={setUndo}
                 />
             )}
             {activeTab === 'exercises' && (
@@ -132,6 +189,7 @@ export default function Library() {
                     exercises={exercises}
                     muscleGroups={muscleGroups}
                     onUpdate={loadData}
+                    onDeleted={setUndo}
                 />
             )}
             {activeTab === 'templates' && (
@@ -139,16 +197,21 @@ export default function Library() {
                     templates={templates}
                     exercises={exercises}
                     onUpdate={loadData}
+                    onDeleted={setUndo}
                 />
             )}
 
             {/* Import/Export Modal */}
             <Modal
                 isOpen={showExportModal}
-                onClose={() => { setShowExportModal(false); setImportError('') }}
+                onClose={closeDataModal}
                 title="Importar / Exportar Datos"
             >
                 <div>
+                    <BackupPanel onRestored={loadData} />
+
+                    <hr style={{ border: 'none', borderTop: '1px solid var(--bg-tertiary)', margin: 'var(--spacing-md) 0' }} />
+
                     <p className="text-muted" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-sm)' }}>
                         Exportar configuración actual:
                     </p>
@@ -181,24 +244,55 @@ export default function Library() {
                             {importError}
                         </p>
                     )}
-                    <button
-                        className="btn-action btn-secondary"
-                        onClick={handleImport}
-                        disabled={!importData.trim()}
-                    >
-                        📥 Importar
-                    </button>
+                    {importIssues.length > 0 && (
+                        <ul style={{ color: 'var(--accent-danger)', fontSize: '0.8rem', marginBottom: 'var(--spacing-sm)', paddingLeft: 'var(--spacing-lg)' }}>
+                            {importIssues.slice(0, 20).map(issue => (
+                                <li key={issue.path + issue.message}>
+                                    <code>{issue.path}</code>: {issue.message}
+                                </li>
+                            ))}
+                            {importIssues.length > 20 && <li>… y {importIssues.length - 20} más</li>}
+                        </ul>
+                    )}
+                    {importItems ? (
+                        <>
+                            <ImportPreview
+                                items={importItems}
+                                resolutions={importResolutions}
+                                onChange={(key, resolution) => setImportResolutions(prev => ({ ...prev, [key]: resolution }))}
+                            />
+                            <div className="flex gap-sm">
+                                <button className="btn-action btn-secondary" onClick={cancelImport}>
+                                    Cancelar
+                                </button>
+                                <button className="btn-action btn-primary" onClick={confirmImport}>
+                                    ✅ Confirmar
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <button
+                            className="btn-action btn-secondary"
+                            onClick={handleImport}
+                            disabled={!importData.trim()}
+                        >
+                            📥 Revisar importación
+                        </button>
+                    )}
                 </div>
             </Modal>
+
+            <UndoToast item={undo} onClose={closeUndo} onRestored={loadData} />
         </div>
     )
 }
 
 // Muscle Groups Tab
-function MuscleGroupsTab({ groups, onUpdate }: { groups: MuscleGroup[], onUpdate: () => void }) {
+function MuscleGroupsTab({ groups, onUpdate, onDeleted }: { groups: MuscleGroup[], onUpdate: () => void, onDeleted: (item: UndoItem) => void }) {
     const [newName, setNewName] = useState('')
     const [editingId, setEditingId] = useState<string | null>(null)
     const [editName, setEditName] = useState('')
+    const [deleting, setDeleting] = useState<{ group: MuscleGroup, usage: string[] } | null>(null)
 
     async function handleAdd() {
         if (!newName.trim()) return
@@ -214,8 +308,19 @@ function MuscleGroupsTab({ groups, onUpdate }: { groups: MuscleGroup[], onUpdate
         onUpdate()
     }
 
-    async function handleDelete(id: string) {
-        await db.deleteMuscleGroup(id)
+    async function handleDelete(group: MuscleGroup) {
+        const { exercises } = await db.getMuscleGroupUsage(group.id)
+        const usage = exercises.length > 0
+            ? [`${exercises.length} ejercicios: ${exercises.map(e => e.name).join(', ')}`]
+            : []
+        setDeleting({ group, usage })
+    }
+
+    async function confirmDelete(strategy: DeleteStrategy) {
+        if (!deleting) return
+        const trashId = await db.deleteMuscleGroup(deleting.group.id, strategy)
+        onDeleted({ trashId, message: `"${deleting.group.name}" movido a la papelera` })
+        setDeleting(null)
         onUpdate()
     }
 
@@ -251,27 +356,49 @@ function MuscleGroupsTab({ groups, onUpdate }: { groups: MuscleGroup[], onUpdate
                                 <span>{group.name}</span>
                                 <div className="flex gap-sm">
                                     <button className="btn-secondary" onClick={() => { setEditingId(group.id); setEditName(group.name) }}>✎</button>
-                                    <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(group.id)}>✕</button>
+                                    <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(group)}>✕</button>
                                 </div>
                             </>
                         )}
                     </div>
                 ))}
             </div>
+
+            {deleting && (
+                <DeleteUsageModal
+                    isOpen
+                    onClose={() => setDeleting(null)}
+                    itemName={deleting.group.name}
+                    usage={deleting.usage}
+                    cascadeLabel="Quitar el grupo de esos ejercicios"
+                    reassignOptions={groups.filter(g => g.id !== deleting.group.id)}
+                    onConfirm={confirmDelete}
+                />
+            )}
         </div>
     )
 }
 
 // Exercises Tab
-function ExercisesTab({ exercises, muscleGroups, onUpdate }: { exercises: Exercise[], muscleGroups: MuscleGroup[], onUpdate: () => void }) {
+function ExercisesTab({ exercises, muscleGroups, onUpdate, onDeleted }: { exercises: Exercise[], muscleGroups: MuscleGroup[], onUpdate: () => void, onDeleted: (item: UndoItem) => void }) {
     const [showForm, setShowForm] = useState(false)
     const [name, setName] = useState('')
     const [selectedGroups, setSelectedGroups] = useState<string[]>([])
+    // '' follows the global preference
+    const [weightUnit, setWeightUnit] = useState<WeightUnit | ''>('')
+    const [progression, setProgression] = useState<ProgressionRule | undefined>(undefined)
+    const [mode, setMode] = useState<ExerciseMode>('reps')
+    const [tracksDistance, setTracksDistance] = useState(false)
     const [editingId, setEditingId] = useState<string | null>(null)
+    const [deleting, setDeleting] = useState<{ exercise: Exercise, usage: string[] } | null>(null)
 
     function resetForm() {
         setName('')
         setSelectedGroups([])
+        setWeightUnit('')
+        setProgression(undefined)
+        setMode('reps')
+        setTracksDistance(false)
         setEditingId(null)
         setShowForm(false)
     }
@@ -281,7 +408,12 @@ function ExercisesTab({ exercises, muscleGroups, onUpdate }: { exercises: Exerci
         await db.saveExercise({
             id: editingId || generateId(),
             name: name.trim(),
-            muscleGroupIds: selectedGroups
+            muscleGroupIds: selectedGroups,
+            weightUnit: weightUnit || undefined,
+            // Progression rules work on reps, so timed exercises do not keep one
+            progression: mode === 'timed' ? undefined : progression,
+            mode: mode === 'timed' ? mode : undefined,
+            tracksDistance: mode === 'timed' && tracksDistance ? true : undefined
         })
         resetForm()
         onUpdate()
@@ -291,11 +423,30 @@ function ExercisesTab({ exercises, muscleGroups, onUpdate }: { exercises: Exerci
         setEditingId(ex.id)
         setName(ex.name)
         setSelectedGroups(ex.muscleGroupIds)
+        setWeightUnit(ex.weightUnit ?? '')
+        setProgression(ex.progression)
+        setMode(ex.mode ?? 'reps')
+        setTracksDistance(ex.tracksDistance ?? false)
         setShowForm(true)
     }
 
-    async function handleDelete(id: string) {
-        await db.deleteExercise(id)
+    async function handleDelete(exercise: Exercise) {
+        const { templates, sessionIds, setCount } = await db.getExerciseUsage(exercise.id)
+        const usage: string[] = []
+        if (templates.length > 0) {
+            usage.push(`${templates.length} entrenamientos: ${templates.map(t => t.name).join(', ')}`)
+        }
+        if (sessionIds.length > 0) {
+            usage.push(`${sessionIds.length} sesiones del historial (${setCount} series)`)
+        }
+        setDeleting({ exercise, usage })
+    }
+
+    async function confirmDelete(strategy: DeleteStrategy) {
+        if (!deleting) return
+        const trashId = await db.deleteExercise(deleting.exercise.id, strategy)
+        onDeleted({ trashId, message: `"${deleting.exercise.name}" movido a la papelera` })
+        setDeleting(null)
         onUpdate()
     }
 
@@ -348,6 +499,48 @@ function ExercisesTab({ exercises, muscleGroups, onUpdate }: { exercises: Exerci
                             </button>
                         ))}
                     </div>
+                    <p className="text-secondary" style={{ marginBottom: 'var(--spacing-sm)', fontSize: '0.875rem' }}>
+                        Unidad de peso:
+                    </p>
+                    <select
+                        value={weightUnit}
+                        onChange={e => setWeightUnit(e.target.value as WeightUnit | '')}
+                        style={{ marginBottom: 'var(--spacing-md)' }}
+                    >
+                        <option value="">Según preferencia general</option>
+                        {WEIGHT_UNITS.map(unit => (
+                            <option key={unit.id} value={unit.id}>{unit.label}</option>
+                        ))}
+                    </select>
+                    <p className="text-secondary" style={{ marginBottom: 'var(--spacing-sm)', fontSize: '0.875rem' }}>
+                        Tipo de ejercicio:
+                    </p>
+                    <select
+                        value={mode}
+                        onChange={e => setMode(e.target.value as ExerciseMode)}
+                        style={{ marginBottom: mode === 'timed' ? 'var(--spacing-sm)' : 'var(--spacing-md)' }}
+                    >
+                        {EXERCISE_MODES.map(m => (
+                            <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
+                    </select>
+                    {mode === 'timed' ? (
+                        <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+                            <input
+                                type="checkbox"
+                                checked={tracksDistance}
+                                onChange={e => setTracksDistance(e.target.checked)}
+                            />
+                            <span>Registra distancia (paseos, arrastres)</span>
+                        </label>
+                    ) : (
+                        <>
+                            <p className="text-secondary" style={{ marginBottom: 'var(--spacing-sm)', fontSize: '0.875rem' }}>
+                                Progresión:
+                            </p>
+                            <ProgressionRuleEditor value={progression} onChange={setProgression} />
+                        </>
+                    )}
                     <div className="flex gap-sm">
                         <button className="btn-action btn-primary" onClick={handleSave}>
                             {editingId ? 'Guardar' : 'Crear'}
@@ -362,39 +555,60 @@ function ExercisesTab({ exercises, muscleGroups, onUpdate }: { exercises: Exerci
                     <div key={ex.id} className="list-item">
                         <div className="list-item-content">
                             <div className="list-item-title">{ex.name}</div>
-                            <div className="list-item-subtitle">{getGroupNames(ex.muscleGroupIds)}</div>
+                            <div className="list-item-subtitle">
+                                {getGroupNames(ex.muscleGroupIds)}
+                                {ex.weightUnit && ` · ${unitShort(ex.weightUnit)}`}
+                                {ex.progression && ' · 📈'}
+                                {isTimedExercise(ex) && ' · ⏱️'}
+                            </div>
                         </div>
                         <div className="flex gap-sm">
                             <button className="btn-secondary" onClick={() => startEdit(ex)}>✎</button>
-                            <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(ex.id)}>✕</button>
+                            <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(ex)}>✕</button>
                         </div>
                     </div>
                 ))}
             </div>
+
+            {deleting && (
+                <DeleteUsageModal
+                    isOpen
+                    onClose={() => setDeleting(null)}
+                    itemName={deleting.exercise.name}
+                    usage={deleting.usage}
+                    cascadeLabel="Quitar de los entrenamientos y borrar sus series del historial"
+                    reassignOptions={exercises.filter(e => e.id !== deleting.exercise.id)}
+                    onConfirm={confirmDelete}
+                />
+            )}
         </div>
     )
 }
 
 // Templates Tab
-function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTemplate[], exercises: Exercise[], onUpdate: () => void }) {
+function TemplatesTab({ templates, exercises, onUpdate, onDeleted }: { templates: WorkoutTemplate[], exercises: Exercise[], onUpdate: () => void, onDeleted: (item: UndoItem) => void }) {
     const [showForm, setShowForm] = useState(false)
     const [name, setName] = useState('')
     const [templateExercises, setTemplateExercises] = useState<TemplateExercise[]>([])
+    const [groups, setGroups] = useState<ExerciseGroup[]>([])
     const [editingId, setEditingId] = useState<string | null>(null)
 
     function resetForm() {
         setName('')
         setTemplateExercises([])
+        setGroups([])
         setEditingId(null)
         setShowForm(false)
     }
 
     async function handleSave() {
         if (!name.trim() || templateExercises.length === 0) return
+        const grouped = normalizeGroups({ exercises: templateExercises, groups })
         await db.saveTemplate({
             id: editingId || generateId(),
             name: name.trim(),
-            exercises: templateExercises
+            exercises: grouped.exercises,
+            groups: grouped.groups.length > 0 ? grouped.groups : undefined
         })
         resetForm()
         onUpdate()
@@ -404,11 +618,23 @@ function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTe
         setEditingId(t.id)
         setName(t.name)
         setTemplateExercises([...t.exercises])
+        setGroups([...(t.groups ?? [])])
         setShowForm(true)
     }
 
-    async function handleDelete(id: string) {
-        await db.deleteTemplate(id)
+    function applyGrouping(update: (data: GroupedExercises) => GroupedExercises) {
+        const result = update({ exercises: templateExercises, groups })
+        setTemplateExercises(result.exercises)
+        setGroups(result.groups)
+    }
+
+    function updateGroup(groupId: string, changes: Partial<Omit<ExerciseGroup, 'id'>>) {
+        setGroups(prev => prev.map(g => g.id === groupId ? { ...g, ...changes } : g))
+    }
+
+    async function handleDelete(template: WorkoutTemplate) {
+        const trashId = await db.deleteTemplate(template.id)
+        onDeleted({ trashId, message: `"${template.name}" movido a la papelera` })
         onUpdate()
     }
 
@@ -423,7 +649,7 @@ function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTe
     }
 
     function removeExercise(exId: string) {
-        setTemplateExercises(prev => prev.filter(te => te.exerciseId !== exId))
+        applyGrouping(data => normalizeGroups({ ...data, exercises: data.exercises.filter(te => te.exerciseId !== exId) }))
     }
 
     function updateExercise(exId: string, field: keyof TemplateExercise, value: number) {
@@ -432,6 +658,10 @@ function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTe
         ))
     }
 
+    function replaceExercise(exId: string, updated: TemplateExercise) {
+        setTemplateExercises(prev => prev.map(te => te.exerciseId === exId ? updated : te))
+    }
+
     function getExerciseName(id: string) {
         return exercises.find(e => e.id === id)?.name || 'Desconocido'
     }
@@ -474,50 +704,126 @@ function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTe
 
                     {templateExercises.length > 0 && (
                         <div className="list" style={{ marginBottom: 'var(--spacing-md)' }}>
-                            {templateExercises.map((te, idx) => (
-                                <div key={te.exerciseId} className="card" style={{ background: 'var(--bg-tertiary)' }}>
-                                    <div className="flex justify-between items-center" style={{ marginBottom: 'var(--spacing-sm)' }}>
-                                        <span style={{ fontWeight: 600 }}>{idx + 1}. {getExerciseName(te.exerciseId)}</span>
-                                        <button
-                                            className="btn-secondary"
-                                            style={{ color: 'var(--accent-danger)', padding: 'var(--spacing-xs)' }}
-                                            onClick={() => removeExercise(te.exerciseId)}
-                                        >
-                                            ✕
-                                        </button>
-                                    </div>
-                                    <div className="flex gap-sm">
-                                        <div style={{ flex: 1 }}>
-                                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Series</label>
-                                            <input
-                                                type="number"
-                                                value={te.sets}
-                                                onChange={e => updateExercise(te.exerciseId, 'sets', parseInt(e.target.value) || 1)}
-                                                min={1}
-                                            />
-                                        </div>
-                                        <div style={{ flex: 1 }}>
-                                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Reps</label>
-                                            <input
-                                                type="number"
-                                                value={te.targetReps}
-                                                onChange={e => updateExercise(te.exerciseId, 'targetReps', parseInt(e.target.value) || 1)}
-                                                min={1}
-                                            />
+                            {templateExercises.map((te, idx) => {
+                                const previous = templateExercises[idx - 1]
+                                const linked = !!te.groupId && te.groupId === previous?.groupId
+                                const group = groups.find(g => g.id === te.groupId)
+                                const timed = isTimedExercise(exercises.find(e => e.id === te.exerciseId))
+                                return (
+                                    <div
+                                        key={te.exerciseId}
+                                        className="card"
+                                        style={{ background: 'var(--bg-tertiary)', borderLeft: group ? '3px solid var(--accent-primary)' : undefined }}
+                                    >
+                                        {group && !linked && (
+                                            <div className="flex gap-sm" style={{ marginBottom: 'var(--spacing-sm)' }}>
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.75rem' }}>Grupo</label>
+                                                    <select
+                                                        value={group.type}
+                                                        onChange={e => updateGroup(group.id, { type: e.target.value as ExerciseGroupType })}
+                                                    >
+                                                        {(Object.keys(GROUP_TYPE_LABELS) as ExerciseGroupType[]).map(type => (
+                                                            <option key={type} value={type}>{GROUP_TYPE_LABELS[type]}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.75rem' }}>Descanso tras ronda (s)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={group.restAfterRoundSeconds}
+                                                        onChange={e => updateGroup(group.id, { restAfterRoundSeconds: parseInt(e.target.value) || 0 })}
+                                                        min={0}
+                                                        step={15}
+                                                    />
+                                                </div>
+                                            </div>
+                                        )}
+                                        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--spacing-sm)' }}>
+                                            <span style={{ fontWeight: 600 }}>{idx + 1}. {getExerciseName(te.exerciseId)}</span>
+                                            <button
+                                                className="btn-secondary"
+                                                style={{ color: 'var(--accent-danger)', padding: 'var(--spacing-xs)' }}
+                                                onClick={() => removeExercise(te.exerciseId)}
+                                            >
+                                                ✕
+                                            </button>
                                         </div>
-                                        <div style={{ flex: 1 }}>
-                                            <label className="text-muted" style={{ fontSize: '0.75rem' }}>Descanso (s)</label>
-                                            <input
-                                                type="number"
-                                                value={te.restSeconds}
-                                                onChange={e => updateExercise(te.exerciseId, 'restSeconds', parseInt(e.target.value) || 0)}
-                                                min={0}
-                                                step={15}
-                                            />
+                                        <div className="flex gap-sm">
+                                            <div style={{ flex: 1 }}>
+                                                <label className="text-muted" style={{ fontSize: '0.75rem' }}>Series</label>
+                                                <input
+                                                    type="number"
+                                                    value={te.sets}
+                                                    onChange={e => updateExercise(te.exerciseId, 'sets', parseInt(e.target.value) || 1)}
+                                                    min={1}
+                                                />
+                                            </div>
+                                            {timed ? (
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.75rem' }}>Tiempo (s)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={targetSecondsOf(te)}
+                                                        onChange={e => updateExercise(te.exerciseId, 'targetSeconds', parseInt(e.target.value) || 1)}
+                                                        min={1}
+                                                        step={5}
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.75rem' }}>Reps</label>
+                                                    <input
+                                                        type="number"
+                                                        value={te.targetReps}
+                                                        onChange={e => updateExercise(te.exerciseId, 'targetReps', parseInt(e.target.value) || 1)}
+                                                        min={1}
+                                                    />
+                                                </div>
+                                            )}
+                                            {!group && (
+                                                <div style={{ flex: 1 }}>
+                                                    <label className="text-muted" style={{ fontSize: '0.75rem' }}>Descanso (s)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={te.restSeconds}
+                                                        onChange={e => updateExercise(te.exerciseId, 'restSeconds', parseInt(e.target.value) || 0)}
+                                                        min={0}
+                                                        step={15}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
+                                        {!timed && (
+                                            <div style={{ marginTop: 'var(--spacing-sm)' }}>
+                                                <label className="text-muted" style={{ fontSize: '0.75rem' }}>
+                                                    Tempo (bajada-pausa-subida-arriba, opcional)
+                                                </label>
+                                                <TempoInput
+                                                    value={te.tempo}
+                                                    onChange={tempo => replaceExercise(te.exerciseId, { ...te, tempo })}
+                                                />
+                                            </div>
+                                        )}
+                                        <SetPrescriptionEditor
+                                            exercise={te}
+                                            unit={exerciseUnit(exercises.find(e => e.id === te.exerciseId))}
+                                            typesOnly={timed}
+                                            onChange={updated => replaceExercise(te.exerciseId, updated)}
+                                        />
+                                        {idx > 0 && (
+                                            <button
+                                                className="btn-secondary"
+                                                style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.75rem', marginTop: 'var(--spacing-sm)' }}
+                                                onClick={() => applyGrouping(data => linked ? unlinkFromPrevious(data, idx) : linkToPrevious(data, idx))}
+                                            >
+                                                {linked ? '✂️ Separar del anterior' : '🔗 Agrupar con el anterior'}
+                                            </button>
+                                        )}
                                     </div>
-                                </div>
-                            ))}
+                                    )
+                            })}
                         </div>
                     )}
 
@@ -541,7 +847,7 @@ function TemplatesTab({ templates, exercises, onUpdate }: { templates: WorkoutTe
                         </div>
                         <div className="flex gap-sm">
                             <button className="btn-secondary" onClick={() => startEdit(t)}>✎</button>
-                            <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(t.id)}>✕</button>
+                            <button className="btn-secondary" style={{ color: 'var(--accent-danger)' }} onClick={() => handleDelete(t)}>✕</button>
                         </div>
                     </div>
                 ))}
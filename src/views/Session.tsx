@@ -1,118 +1,206 @@
-import { useEffect, useState, useRef, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useEffect, useEffectEvent, useState, useRef, useCallback } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import {
     db,
     generateId,
     type WorkoutTemplate,
     type Session as SessionType,
     type Exercise,
+    type ExercisePrescription,
+    type ProgressionState,
     type SetData
 } from '../db'
 import { useAudioFeedback } from '../hooks/useAudioFeedback'
 import Modal from '../components/Modal'
 import ScrollPicker from '../components/ScrollPicker'
+import ExercisePickerModal from '../components/ExercisePickerModal'
+import SessionPlanEditor from '../components/SessionPlanEditor'
+import SessionSetsEditor from '../components/SessionSetsEditor'
+import { FREESTYLE_NAME, FREESTYLE_TEMPLATE_ID, templateFromSession } from '../freestyle'
+import { GROUP_TYPE_LABELS } from '../exerciseGroups'
+import SetTypeFilter from '../components/SetTypeFilter'
+import { targetAppliesTo } from '../progression'
+import { formatSeconds, formatSetResult, isTimedExercise, isTimedSet, targetSecondsOf } from '../timedSets'
+import { cancelRestNotification, onRestAction, requestRestNotifications, scheduleRestNotification } from '../restNotifications'
+import { activeDurationMs, endPause, startPause } from '../sessionPauses'
+import { discardSession, finishSession, sessionPath, takeLegacyTimerState } from '../activeSessions'
+import {
+    countdownLeft,
+    createSessionEngine,
+    elapsedRestMs,
+    elapsedTutMs,
+    pauseElapsedMs,
+    persistTimer,
+    restoreTimer,
+    type Timer,
+    type TimerEvent
+} from '../sessionEngine'
+import { useClock, useTimer } from '../hooks/useSessionEngine'
+import TimerReadout from '../components/TimerReadout'
+import { formatTempo, formatTutDeviation, getCountdownPreference, tempoPhaseLabel, tempoPosition, type TempoPosition } from '../tempo'
+import {
+    describeSetPrescription,
+    estimateOneRepMax,
+    prescribedWeight,
+    setPrescriptionAt,
+    targetRpe
+} from '../setPrescriptions'
+import {
+    DEFAULT_SET_TYPE_FILTER,
+    SET_TYPES,
+    filterSessionSets,
+    linkSets,
+    plannedSetType,
+    setTypeLabel,
+    setTypeOf,
+    type SetType
+} from '../setTypes'
+import {
+    addExercise,
+    groupOf,
+    groupRounds,
+    indexOfEntry,
+    nextPosition,
+    restAfterSet,
+    sessionPlan,
+    withPrescriptions
+} from '../sessionFlow'
+import {
+    convertWeight,
+    exerciseUnit,
+    formatWeight,
+    getWeightUnitPreference,
+    setUnit,
+    unitShort,
+    WEIGHT_STEPS
+} from '../units'
+
+function formatTime(ms: number) {
+    const totalSeconds = Math.floor(ms / 1000)
+    const mins = Math.floor(totalSeconds / 60)
+    const secs = totalSeconds % 60
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
 
-// States:
-// IDLE - Ready to start a set (shows "Iniciar Serie")
-// PREPARATION - 5s countdown before TUT
-// EXECUTION - TUT timer running (shows "Fin de Serie")
-// REST - Rest timer + data form (shows "Registrar Serie" + after registering "Iniciar Serie")
-// TRANSITION - Inter-exercise rest (shows "Siguiente Ejercicio")
-type TimerState = 'IDLE' | 'PREPARATION' | 'EXECUTION' | 'REST' | 'TRANSITION'
-
-const COUNTDOWN_SECONDS = 5
-const TIMER_STORAGE_KEY = 'gymtrack_timer_state'
-
-interface TimerPersistence {
-    sessionId: string
-    state: TimerState
-    tutStartTime: number | null
-    restStartTime: number | null
-    countdownEndTime: number | null
-    lastTutMs: number
-    setRegistered: boolean
+// Whole seconds of a clock, so its readout renders once a second
+function seconds(ms: number) {
+    return Math.floor(ms / 1000) * 1000
 }
 
 export default function Session() {
     const { templateId } = useParams<{ templateId: string }>()
+    // Session to resume, when opened from the list of unfinished ones. Read once: the URL
+    // gains the id of a newly started session without that starting another.
+    const [searchParams] = useSearchParams()
+    const [resumeId] = useState(() => searchParams.get('id'))
     const navigate = useNavigate()
-    const { playCountdownBeep, playFinalBeep } = useAudioFeedback()
+    const { playCountdownBeep, playFinalBeep, playPhaseCue, playRepCue } = useAudioFeedback()
 
     const [template, setTemplate] = useState<WorkoutTemplate | null>(null)
     const [exercises, setExercises] = useState<Exercise[]>([])
     const [session, setSession] = useState<SessionType | null>(null)
 
-    const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0)
-    const [currentSetIndex, setCurrentSetIndex] = useState(0)
-    const [timerState, setTimerState] = useState<TimerState>('IDLE')
+    // The set timer and the position in the plan; the clock readouts subscribe to it themselves
+    const [engine] = useState(() => createSessionEngine())
+    const timer = useTimer(engine)
+    const {
+        state: timerState,
+        exerciseIndex: currentExerciseIndex,
+        setIndex: currentSetIndex,
+        setRegistered,
+        lastTutMs: lastTutTime
+    } = timer
     const [previousExerciseIndex, setPreviousExerciseIndex] = useState<number | null>(null)
-
-    const [tutStartTime, setTutStartTime] = useState<number | null>(null)
-    const [restStartTime, setRestStartTime] = useState<number | null>(null)
-    const [countdownEndTime, setCountdownEndTime] = useState<number | null>(null)
-    const [elapsedTut, setElapsedTut] = useState(0)
-    const [elapsedRest, setElapsedRest] = useState(0)
-    const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS)
-    const [lastTutTime, setLastTutTime] = useState(0)
+    const [countdownSeconds] = useState(getCountdownPreference)
 
     const [weight, setWeight] = useState<number | string>('')
     const [reps, setReps] = useState(10)
     const [rpe, setRpe] = useState(7)
     const [technicalFailure, setTechnicalFailure] = useState(false)
-
-    const [sessionStartTime, setSessionStartTime] = useState<number>(Date.now())
-    const [sessionElapsed, setSessionElapsed] = useState(0)
+    const [setType, setSetType] = useState<SetType>('working')
+    // Timed exercises log these instead of reps
+    const [durationSeconds, setDurationSeconds] = useState(0)
+    const [distance, setDistance] = useState<number | string>('')
+    const [unitPreference] = useState(getWeightUnitPreference)
+    // While a set is being saved, so the button cannot log it twice
+    const [registering, setRegistering] = useState(false)
 
     const [showSummaryModal, setShowSummaryModal] = useState(false)
     const [summaryData, setSummaryData] = useState<SessionType | null>(null)
-
-    // Track if current set data has been registered
-    const [setRegistered, setSetRegistered] = useState(false)
+    const [showExercisePicker, setShowExercisePicker] = useState(false)
+    const [showPlanEditor, setShowPlanEditor] = useState(false)
+    const [showSetsEditor, setShowSetsEditor] = useState(false)
+    const [templateName, setTemplateName] = useState('')
+    const [templateSaved, setTemplateSaved] = useState(false)
+    const [summarySetTypes, setSummarySetTypes] = useState<SetType[]>(DEFAULT_SET_TYPE_FILTER)
+    // Sets from the last session that included each exercise, by exercise id
+    const [lastPerformance, setLastPerformance] = useState<Record<string, SetData[]>>({})
+    // Estimated 1RM of each exercise from its history, in the exercise's unit, for %1RM loads
+    const [oneRepMaxes, setOneRepMaxes] = useState<Record<string, number | null>>({})
+    // Progression targets computed after previous sessions, and the ones this session produced
+    const [targets, setTargets] = useState<ProgressionState[]>([])
+    const [nextTargets, setNextTargets] = useState<ProgressionState[]>([])
 
     const wakeLockRef = useRef<WakeLockSentinel | null>(null)
-    const timerRef = useRef<number | null>(null)
-    const lastCountdownSecondRef = useRef<number>(COUNTDOWN_SECONDS)
+    const lastCountdownSecondRef = useRef<number | null>(null)
     const hasVibratedRef = useRef(false)
+    const lastHoldSecondRef = useRef<number | null>(null)
+    const lastTempoPositionRef = useRef<TempoPosition | null>(null)
 
     // Load template and initialize/resume session
     useEffect(() => {
         async function init() {
             if (!templateId) return
 
-            const [templateData, allExercises, existingSession] = await Promise.all([
-                db.getTemplate(templateId),
+            // Freestyle sessions have no stored template: the plan grows as exercises are picked
+            const isFreestyle = templateId === FREESTYLE_TEMPLATE_ID
+            const [templateData, allExercises, activeSessions, progression] = await Promise.all([
+                isFreestyle ? undefined : db.getTemplate(templateId),
                 db.getAllExercises(),
-                db.getActiveSession()
+                db.getActiveSessions(),
+                db.getAllProgression()
             ])
-
-            if (!templateData) {
+            // Without an id (an older link or a bookmark) the latest open session of the template
+            const existingSession = activeSessions.find(s =>
+                s.templateId === templateId && (resumeId === null || s.id === resumeId)
+            )
+
+            // An open session carries its own copy of the plan, so it resumes even once its
+            // template is gone; only a new one needs the template
+            if (!isFreestyle && !templateData && !existingSession) {
                 navigate('/')
                 return
             }
 
-            setTemplate(templateData)
             setExercises(allExercises)
-
-            if (existingSession && existingSession.templateId === templateId) {
-                setSession(existingSession)
-                setSessionStartTime(existingSession.startTime)
-                restoreSessionState(existingSession, templateData)
-                restoreTimerState(existingSession.id)
+            setTargets(progression)
+
+            // The session follows its own copy of the plan, so edits made during it survive a reload
+            if (existingSession) {
+                const resumed = templateData ? withPrescriptions(existingSession, templateData) : existingSession
+                engine.load(restoreTimer(resumed, resumed.timer ?? takeLegacyTimerState(resumed.id), Date.now()))
+                setTemplate(sessionPlan(resumed))
+                setSession(resumed)
+                restoreSetForm(resumed, allExercises)
             } else {
                 const newSession: SessionType = {
                     id: generateId(),
                     templateId,
-                    templateName: templateData.name,
+                    templateName: templateData?.name ?? FREESTYLE_NAME,
                     startTime: Date.now(),
-                    exercises: templateData.exercises.map(te => ({
-                        exerciseId: te.exerciseId,
+                    exercises: (templateData?.exercises ?? []).map(({ exerciseId, ...prescription }) => ({
+                        exerciseId,
+                        prescription,
                         sets: []
                     })),
+                    groups: templateData?.groups,
                     completed: false
                 }
                 await db.saveSession(newSession)
+                navigate(sessionPath(newSession), { replace: true })
+                setTemplate(sessionPlan(newSession))
                 setSession(newSession)
-                setSessionStartTime(newSession.startTime)
+                if (isFreestyle) setShowExercisePicker(true)
             }
 
             requestWakeLock()
@@ -120,11 +208,10 @@ export default function Session() {
 
         init()
 
-        return () => {
-            releaseWakeLock()
-            if (timerRef.current) clearInterval(timerRef.current)
-        }
-    }, [templateId, navigate])
+        return () => releaseWakeLock()
+    }, [templateId, resumeId, navigate, engine])
+
+    useEffect(() => engine.start(), [engine])
 
     useEffect(() => {
         const handleVisibilityChange = () => {
@@ -137,80 +224,43 @@ export default function Session() {
         return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
     }, [])
 
-    const saveTimerState = useCallback(() => {
-        if (!session) return
-        const state: TimerPersistence = {
-            sessionId: session.id,
-            state: timerState,
-            tutStartTime,
-            restStartTime,
-            countdownEndTime,
-            lastTutMs: lastTutTime,
-            setRegistered
-        }
-        localStorage.setItem(TIMER_STORAGE_KEY, JSON.stringify(state))
-    }, [session, timerState, tutStartTime, restStartTime, countdownEndTime, lastTutTime, setRegistered])
-
+    // The timer is saved into the session on every change of state, and once on load so a
+    // timer recovered from localStorage or reconciled on restore is kept
+    const sessionId = session?.id
     useEffect(() => {
-        saveTimerState()
-    }, [saveTimerState])
-
-    function restoreTimerState(sessionId: string) {
-        try {
-            const stored = localStorage.getItem(TIMER_STORAGE_KEY)
-            if (!stored) return
-
-            const state: TimerPersistence = JSON.parse(stored)
-            if (state.sessionId !== sessionId) return
-
-            const now = Date.now()
-
-            if (state.state === 'PREPARATION' && state.countdownEndTime) {
-                if (state.countdownEndTime > now) {
-                    setCountdownEndTime(state.countdownEndTime)
-                    setTimerState('PREPARATION')
-                } else {
-                    setTutStartTime(state.countdownEndTime)
-                    setTimerState('EXECUTION')
-                }
-            } else if (state.state === 'EXECUTION' && state.tutStartTime) {
-                setTutStartTime(state.tutStartTime)
-                setTimerState('EXECUTION')
-            } else if ((state.state === 'REST' || state.state === 'TRANSITION') && state.restStartTime) {
-                setRestStartTime(state.restStartTime)
-                setLastTutTime(state.lastTutMs)
-                setSetRegistered(state.setRegistered || false)
-                setTimerState(state.state)
-            }
-        } catch (e) {
-            console.log('Failed to restore timer state:', e)
+        if (!sessionId) return
+        const save = (timer: Timer) => {
+            db.saveSessionTimer(sessionId, persistTimer(timer)).catch(err => console.log('Failed to save timer state:', err))
         }
-    }
-
-    function restoreSessionState(savedSession: SessionType, templateData: WorkoutTemplate) {
-        for (let i = 0; i < templateData.exercises.length; i++) {
-            const templateEx = templateData.exercises[i]
-            const sessionEx = savedSession.exercises[i]
-
-            if (sessionEx.sets.length < templateEx.sets) {
-                setCurrentExerciseIndex(i)
-                setCurrentSetIndex(sessionEx.sets.length)
-
-                if (sessionEx.sets.length > 0) {
-                    const lastSet = sessionEx.sets[sessionEx.sets.length - 1]
-                    setWeight(lastSet.weight)
-                    setReps(lastSet.reps)
-                    setLastTutTime(lastSet.tutMs)
-                }
-                return
-            }
+        save(engine.getTimer())
+        return engine.subscribe(save)
+    }, [engine, sessionId])
+
+    // Changes to the session go through here with the timer event they come with, so the sets
+    // and the timer that follows from them are written in the same transaction
+    const commitSession = useCallback((updated: SessionType, event: TimerEvent) =>
+        engine.commit(event, async next => {
+            await db.saveSession({ ...updated, timer: persistTimer(next) })
+            setSession(updated)
+            setTemplate(sessionPlan(updated))
+        }), [engine])
+
+    function restoreSetForm(savedSession: SessionType, allExercises: Exercise[]) {
+        const position = nextPosition(savedSession)
+        if (!position) return
+
+        const sessionEx = savedSession.exercises[position.exerciseIndex]
+        setSetType(plannedSetType(sessionEx.prescription?.setTypes, position.setIndex))
+        if (sessionEx.sets.length > 0) {
+            const lastSet = sessionEx.sets[sessionEx.sets.length - 1]
+            const unit = exerciseUnit(allExercises.find(e => e.id === sessionEx.exerciseId))
+            setWeight(convertWeight(lastSet.weight, setUnit(lastSet), unit) ?? lastSet.weight)
+            setReps(lastSet.reps)
         }
-
-        setCurrentExerciseIndex(templateData.exercises.length - 1)
-        setCurrentSetIndex(templateData.exercises[templateData.exercises.length - 1].sets)
     }
 
-    // Reset weight/RPE when changing exercises
+    // Reset weight/RPE when changing exercises; the set form prefills from the last time when
+    // it opens (see endExecution)
     useEffect(() => {
         if (previousExerciseIndex !== null && previousExerciseIndex !== currentExerciseIndex) {
             setWeight('')
@@ -219,59 +269,125 @@ export default function Session() {
         setPreviousExerciseIndex(currentExerciseIndex)
     }, [currentExerciseIndex, previousExerciseIndex])
 
-    // Timer tick
-    useEffect(() => {
-        timerRef.current = window.setInterval(() => {
-            const now = Date.now()
-
-            setSessionElapsed(now - sessionStartTime)
-
-            if (countdownEndTime) {
-                const remaining = Math.ceil((countdownEndTime - now) / 1000)
-                setCountdown(Math.max(0, remaining))
-
-                if (remaining !== lastCountdownSecondRef.current && remaining > 0) {
-                    lastCountdownSecondRef.current = remaining
-                    playCountdownBeep()
-                }
+    const currentExerciseId = session?.exercises[currentExerciseIndex]?.exerciseId
 
-                if (remaining <= 0 && timerState === 'PREPARATION') {
-                    playFinalBeep()
-                    setCountdownEndTime(null)
-                    setTutStartTime(now)
-                    setTimerState('EXECUTION')
-                    lastCountdownSecondRef.current = COUNTDOWN_SECONDS
-                }
-            }
-
-            if (tutStartTime) {
-                setElapsedTut(now - tutStartTime)
-            }
-
-            if (restStartTime) {
-                setElapsedRest(now - restStartTime)
-            }
-        }, 100)
+    useEffect(() => {
+        if (!currentExerciseId || !sessionId || currentExerciseId in lastPerformance) return
+        const unit = exerciseUnit(exercises.find(e => e.id === currentExerciseId), unitPreference)
+        Promise.all([
+            db.getLastPerformance(currentExerciseId, sessionId),
+            db.getExerciseHistory(currentExerciseId, { completedOnly: true, excludeSessionId: sessionId })
+        ]).then(([sets, history]) => {
+            setLastPerformance(prev => ({ ...prev, [currentExerciseId]: sets }))
+            setOneRepMaxes(prev => ({ ...prev, [currentExerciseId]: estimateOneRepMax(history.map(entry => entry.set), unit) }))
+        })
+    }, [currentExerciseId, sessionId, lastPerformance, exercises, unitPreference])
+
+    // Countdown beeps on every second after the first, and the final tone whenever a set
+    // starts, with or without a countdown
+    useEffect(() => engine.subscribeClock(() => {
+        const timer = engine.getTimer()
+        if (timer.state !== 'PREPARATION') {
+            lastCountdownSecondRef.current = null
+            return
+        }
+        const remaining = countdownLeft(timer, engine.getNow())
+        if (lastCountdownSecondRef.current !== null && remaining !== lastCountdownSecondRef.current && remaining > 0) {
+            playCountdownBeep()
+        }
+        lastCountdownSecondRef.current = remaining
+    }), [engine, playCountdownBeep])
+
+    useEffect(() => engine.subscribe((timer, previous, event) => {
+        if (event && timer.state === 'EXECUTION' && previous.state !== 'PAUSED') playFinalBeep()
+    }), [engine, playFinalBeep])
+
+    // Timed exercises count down toward the target hold: beeps on the last three seconds and
+    // the final tone when it is reached. The timer keeps running past it.
+    useEffect(() => engine.subscribeClock(() => {
+        const timer = engine.getTimer()
+        const planned = template?.exercises[timer.exerciseIndex]
+        if (timer.state !== 'EXECUTION' || !planned || !isTimedExercise(exercises.find(e => e.id === planned.exerciseId))) {
+            lastHoldSecondRef.current = null
+            return
+        }
 
-        return () => {
-            if (timerRef.current) clearInterval(timerRef.current)
+        const remaining = Math.ceil((targetSecondsOf(planned) * 1000 - elapsedTutMs(timer, engine.getNow())) / 1000)
+        if (remaining === lastHoldSecondRef.current) return
+        lastHoldSecondRef.current = remaining
+        if (remaining > 0 && remaining <= 3) playCountdownBeep()
+        if (remaining === 0) playFinalBeep()
+    }), [engine, template, exercises, playCountdownBeep, playFinalBeep])
+
+    // Tempo metronome: a cue on every phase change and a distinct one on every new rep. The
+    // first rep needs none, the end of the countdown already marks it.
+    useEffect(() => engine.subscribeClock(() => {
+        const timer = engine.getTimer()
+        const tempo = template?.exercises[timer.exerciseIndex]?.tempo
+        if (timer.state !== 'EXECUTION' || !tempo) {
+            lastTempoPositionRef.current = null
+            return
         }
-    }, [tutStartTime, restStartTime, sessionStartTime, countdownEndTime, timerState, playCountdownBeep, playFinalBeep])
 
-    // Vibrate when rest complete
+        const position = tempoPosition(tempo, elapsedTutMs(timer, engine.getNow()))
+        const last = lastTempoPositionRef.current
+        lastTempoPositionRef.current = position
+        if (!last) return
+        if (position.rep !== last.rep) playRepCue()
+        else if (position.phase !== last.phase) playPhaseCue(position.phase)
+    }), [engine, template, playPhaseCue, playRepCue])
+
+    // The service worker alerts when the rest ends even with the app in the background. Leaving
+    // REST or TRANSITION, starting early included, cancels it.
+    const restStartTime = timer.restStartTime
     useEffect(() => {
-        if ((timerState !== 'REST' && timerState !== 'TRANSITION') || !template) return
+        if ((timerState !== 'REST' && timerState !== 'TRANSITION') || !restStartTime || !session) return
 
-        const targetRest = template.exercises[currentExerciseIndex]?.restSeconds || 90
-        const restMs = targetRest * 1000
+        const restMs = restAfterSet(session, { exerciseIndex: currentExerciseIndex, setIndex: currentSetIndex }) * 1000
+        const transition = timerState === 'TRANSITION'
+        const canMoveOn = transition || (setRegistered && nextPosition(session) !== null)
+        scheduleRestNotification({
+            sessionId: session.id,
+            endsAt: restStartTime + restMs,
+            title: transition ? '✅ Listo para el siguiente ejercicio' : '✅ ¡Descanso completo!',
+            body: session.templateName,
+            url: window.location.href,
+            actionTitle: canMoveOn ? (transition ? 'Siguiente ejercicio' : 'Iniciar serie') : undefined
+        })
+        return cancelRestNotification
+    }, [timerState, restStartTime, session, currentExerciseIndex, currentSetIndex, setRegistered])
+
+    // The notification's button does what the on-screen one would
+    const handleRestAction = useEffectEvent((sessionId: string) => {
+        if (!session || sessionId !== session.id) return
+        if (timerState === 'TRANSITION') {
+            startNextExercise()
+        } else if (timerState === 'REST' && setRegistered && nextPosition(session) !== null) {
+            startNextSet()
+        }
+    })
+
+    useEffect(() => onRestAction((action, sessionId) => {
+        if (action === 'next') handleRestAction(sessionId)
+    }), [])
+
+    // Vibrate once when the rest is complete
+    useEffect(() => engine.subscribeClock(() => {
+        const timer = engine.getTimer()
+        if (timer.state === 'PAUSED' || !session) return
+        if (timer.state !== 'REST' && timer.state !== 'TRANSITION') {
+            hasVibratedRef.current = false
+            return
+        }
 
-        if (elapsedRest >= restMs && !hasVibratedRef.current) {
+        const restMs = restAfterSet(session, timer) * 1000
+        if (elapsedRestMs(timer, engine.getNow()) >= restMs && !hasVibratedRef.current) {
             if ('vibrate' in navigator) {
                 navigator.vibrate([200, 100, 200])
             }
             hasVibratedRef.current = true
         }
-    }, [elapsedRest, timerState, template, currentExerciseIndex])
+    }), [engine, session])
 
     async function requestWakeLock() {
         try {
@@ -290,30 +406,69 @@ export default function Session() {
         }
     }
 
-    // Start 5s countdown before TUT
+    // Start the countdown before TUT; without one the set starts right away
     function startPreparation() {
-        const endTime = Date.now() + (COUNTDOWN_SECONDS * 1000)
-        setCountdownEndTime(endTime)
-        setCountdown(COUNTDOWN_SECONDS)
-        lastCountdownSecondRef.current = COUNTDOWN_SECONDS
-        setTimerState('PREPARATION')
-        setSetRegistered(false)
-        hasVibratedRef.current = false
+        requestRestNotifications()
+        engine.dispatch({ type: 'START_SET', countdownMs: countdownSeconds * 1000 })
+    }
+
+    // Progression target for the current set, when its exercise follows a rule and the set is
+    // one the target applies to
+    function getCurrentTarget(): ProgressionState | null {
+        const sessionEx = session?.exercises[currentExerciseIndex]
+        if (!sessionEx || !exercises.find(e => e.id === sessionEx.exerciseId)?.progression) return null
+        if (!targetAppliesTo(plannedSetType(sessionEx.prescription?.setTypes, currentSetIndex))) return null
+        return targets.find(t => t.exerciseId === sessionEx.exerciseId) ?? null
+    }
+
+    // Same set number last time, or the last set done then when this session goes further
+    function getLastTimeSet(): SetData | null {
+        const sets = currentExerciseId ? lastPerformance[currentExerciseId] : undefined
+        if (!sets || sets.length === 0) return null
+        return sets[Math.min(currentSetIndex, sets.length - 1)]
     }
 
     // End TUT, start rest
     function endExecution() {
-        setLastTutTime(elapsedTut)
-        setTutStartTime(null)
-        setRestStartTime(Date.now())
-        setElapsedRest(0)
-        setTimerState('REST')
-        setSetRegistered(false)
-        hasVibratedRef.current = false
-
-        if (template) {
-            setReps(template.exercises[currentExerciseIndex].targetReps)
+        engine.dispatch({ type: 'END_SET' })
+
+        if (!template) return
+
+        // A progression target overrides the set's own prescription, which overrides last time.
+        // Whatever the prescription leaves open (load, effort, reps of an unprescribed set) is
+        // filled from last time.
+        const planned = template.exercises[currentExerciseIndex]
+        const setPlan = setPrescriptionAt(planned, currentSetIndex)
+        const ownPlan = planned.setPrescriptions?.[currentSetIndex] !== undefined
+        const unit = exerciseUnit(exercises.find(e => e.id === currentExerciseId), unitPreference)
+        const target = getCurrentTarget()
+        const lastTime = getLastTimeSet()
+        const lastTimeWeight = lastTime && convertWeight(lastTime.weight, setUnit(lastTime), unit)
+        const plannedWeight = setPlan.load
+            ? prescribedWeight(setPlan.load, currentExerciseId ? oneRepMaxes[currentExerciseId] ?? null : null, unit)
+            : null
+        const plannedRpe = targetRpe(setPlan)
+
+        setSetType(plannedSetType(planned.setTypes, currentSetIndex))
+        setReps(setPlan.minReps)
+        if (plannedRpe !== undefined) setRpe(plannedRpe)
+
+        if (target) {
+            const converted = convertWeight(target.weight, target.unit, unit)
+            if (converted !== null) setWeight(converted)
+            setReps(target.reps)
+        } else if (plannedWeight !== null) {
+            setWeight(plannedWeight)
+        } else if (lastTimeWeight != null) {
+            setWeight(lastTimeWeight)
         }
+
+        if (lastTime && !target && !ownPlan) setReps(lastTime.reps)
+        if (lastTime && lastTime.rpe > 0 && plannedRpe === undefined) setRpe(lastTime.rpe)
+
+        // The hold just timed is the duration to log
+        setDurationSeconds(Math.round(engine.getTimer().lastTutMs / 1000))
+        setDistance(lastTime?.distanceM ?? '')
     }
 
     // Register set data (during rest)
@@ -321,114 +476,114 @@ export default function Session() {
         if (!session || !template || setRegistered) return
 
         const weightValue = typeof weight === 'string' ? parseFloat(weight) || 0 : weight
+        const exercise = exercises.find(e => e.id === template.exercises[currentExerciseIndex].exerciseId)
+        const timed = isTimedExercise(exercise)
+        const distanceValue = typeof distance === 'string' ? parseFloat(distance) || 0 : distance
+        const now = engine.getNow()
 
         const setData: SetData = {
             setNumber: currentSetIndex + 1,
             weight: weightValue,
-            reps,
+            unit: exerciseUnit(exercise, unitPreference),
+            reps: timed ? 0 : reps,
+            ...(timed && { durationMs: durationSeconds * 1000 }),
+            ...(timed && exercise?.tracksDistance && distanceValue > 0 && { distanceM: distanceValue }),
             rpe,
             technicalFailure,
+            type: setType,
             tutMs: lastTutTime,
-            restMs: elapsedRest,
-            startTime: tutStartTime || Date.now(),
-            endTime: Date.now()
+            restMs: elapsedRestMs(engine.getTimer(), now),
+            startTime: now,
+            endTime: now
         }
 
-        const updatedSession = { ...session }
-        updatedSession.exercises[currentExerciseIndex].sets.push(setData)
-
-        await db.saveSession(updatedSession)
-        setSession(updatedSession)
-        setSetRegistered(true)
-
-        // Check if this was the last set of the exercise
-        const templateEx = template.exercises[currentExerciseIndex]
-        const isLastSetOfExercise = currentSetIndex + 1 >= templateEx.sets
-        const isLastExercise = currentExerciseIndex + 1 >= template.exercises.length
+        // A new sets array for the exercise, so nothing in state changes until the save succeeds
+        const updatedSession: SessionType = {
+            ...session,
+            exercises: session.exercises.map((ex, i) => i === currentExerciseIndex
+                ? { ...ex, sets: [...ex.sets, linkSets([...ex.sets, setData])[ex.sets.length]] }
+                : ex
+            )
+        }
 
-        if (isLastSetOfExercise) {
-            if (isLastExercise) {
-                // Last set of last exercise - show finish button
-                // Keep in REST state but setRegistered = true will show finish button
-            } else {
-                // Move to TRANSITION for inter-exercise rest
-                setTimerState('TRANSITION')
-            }
+        setRegistering(true)
+        try {
+            await commitSession(updatedSession, { type: 'SET_REGISTERED', session: updatedSession })
+        } catch (err) {
+            console.log('Failed to register set:', err)
+        } finally {
+            setRegistering(false)
         }
-        // If not last set, stay in REST, user can start next set when ready
 
-    }, [session, template, currentExerciseIndex, currentSetIndex, weight, reps, rpe, technicalFailure, lastTutTime, elapsedRest, tutStartTime, setRegistered])
+    }, [engine, commitSession, session, template, exercises, unitPreference, currentExerciseIndex, currentSetIndex, weight, reps, durationSeconds, distance, rpe, technicalFailure, setType, lastTutTime, setRegistered])
 
     // Start next set (from REST state after registering)
     function startNextSet() {
-        if (!template) return
-
-        const templateEx = template.exercises[currentExerciseIndex]
-        const isLastSetOfExercise = currentSetIndex + 1 >= templateEx.sets
-
-        if (!isLastSetOfExercise) {
-            // Same exercise, next set
-            setCurrentSetIndex(prev => prev + 1)
-        }
-
-        setRestStartTime(null)
-        setElapsedRest(0)
-        setElapsedTut(0)
-        setLastTutTime(0)
+        if (!session) return
         setTechnicalFailure(false)
-        setSetRegistered(false)
-        hasVibratedRef.current = false
-
-        // Start countdown for next set
-        startPreparation()
+        requestRestNotifications()
+        engine.dispatch({ type: 'NEXT_SET', session, countdownMs: countdownSeconds * 1000 })
     }
 
     // Move to next exercise (from TRANSITION state)
     function startNextExercise() {
-        setCurrentExerciseIndex(prev => prev + 1)
-        setCurrentSetIndex(0)
-        setRestStartTime(null)
-        setElapsedRest(0)
-        setElapsedTut(0)
-        setLastTutTime(0)
+        if (!session) return
         setTechnicalFailure(false)
-        setSetRegistered(false)
-        hasVibratedRef.current = false
-        setTimerState('IDLE')
+        engine.dispatch({ type: 'NEXT_EXERCISE', session })
+    }
+
+    // Saves a skip, swap, add, reorder or set count change, or a corrected, deleted or added
+    // set, and moves the flow to match. Only offered between sets, never while one is running
+    // or waiting to be registered. Set corrections keep the exercise order, so they pass the
+    // current index instead of looking the exercise up.
+    async function applyPlanChange(updated: SessionType, index = indexOfEntry(updated, session?.exercises[currentExerciseIndex])) {
+        if (!session) return
+
+        await commitSession(updated, { type: 'PLAN_CHANGED', session: updated, index })
+    }
+
+    function pickExercise(exerciseId: string, prescription: ExercisePrescription) {
+        setShowExercisePicker(false)
+        if (session) applyPlanChange(addExercise(session, exerciseId, prescription))
+    }
+
+    async function saveAsTemplate() {
+        if (!summaryData || !templateName.trim()) return
+        await db.saveTemplate(templateFromSession(summaryData, templateName.trim()))
+        setTemplateSaved(true)
+    }
+
+    // Freezes the session clock and whatever set timer is running
+    async function pauseSession() {
+        if (!session || timerState === 'PAUSED') return
+        await commitSession(startPause(session), { type: 'PAUSE' })
+    }
+
+    async function resumeSession() {
+        if (!session || timerState !== 'PAUSED') return
+        await commitSession(endPause(session), { type: 'RESUME' })
     }
 
     async function finishWorkout() {
         if (!session) return
 
-        const completed = {
-            ...session,
-            completed: true,
-            endTime: Date.now()
-        }
-        await db.saveSession(completed)
+        const { completed, progressed } = await finishSession(session)
         releaseWakeLock()
-        localStorage.removeItem(TIMER_STORAGE_KEY)
 
+        setNextTargets(progressed)
         setSummaryData(completed)
+        setTemplateName(`${FREESTYLE_NAME} ${new Date(completed.startTime).toLocaleDateString('es-ES')}`)
         setShowSummaryModal(true)
     }
 
     async function cancelWorkout() {
         if (session) {
-            await db.deleteSession(session.id)
+            await discardSession(session)
         }
         releaseWakeLock()
-        localStorage.removeItem(TIMER_STORAGE_KEY)
         navigate('/')
     }
 
-    function formatTime(ms: number) {
-        const totalSeconds = Math.floor(ms / 1000)
-        const mins = Math.floor(totalSeconds / 60)
-        const secs = totalSeconds % 60
-        return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
-    }
-
     function getLastSetData(): SetData | null {
         if (!session) return null
         const currentExSets = session.exercises[currentExerciseIndex]?.sets
@@ -449,12 +604,19 @@ export default function Session() {
         const summary = {
             workout: summaryData.templateName,
             date: new Date(summaryData.startTime).toISOString().split('T')[0],
-            duration_minutes: Math.round((summaryData.endTime! - summaryData.startTime) / 60000),
-            exercises: summaryData.exercises.map(ex => ({
+            duration_minutes: Math.round(activeDurationMs(summaryData) / 60000),
+            exercises: filterSessionSets(summaryData, summarySetTypes).exercises.map(ex => ({
                 name: exerciseNames[ex.exerciseId] || ex.exerciseId,
+                tempo: ex.prescription?.tempo && formatTempo(ex.prescription.tempo),
                 sets: ex.sets.map(s => ({
-                    weight_kg: s.weight,
-                    reps: s.reps,
+                    set_number: s.setNumber,
+                    set_type: setTypeOf(s),
+                    parent_set: s.parentSetNumber,
+                    weight: s.weight,
+                    weight_unit: setUnit(s),
+                    reps: isTimedSet(s) ? undefined : s.reps,
+                    duration_seconds: s.durationMs !== undefined ? Math.round(s.durationMs / 1000) : undefined,
+                    distance_m: s.distanceM,
                     rpe: s.rpe,
                     tut_seconds: Math.round(s.tutMs / 1000),
                     rest_seconds: Math.round(s.restMs / 1000),
@@ -479,6 +641,11 @@ export default function Session() {
         navigate('/')
     }
 
+    // Changes once per rest, so the page renders again then and not on every tick
+    const isRestComplete = useClock(engine, (timer, now) =>
+        session !== null && elapsedRestMs(timer, now) >= restAfterSet(session, timer) * 1000
+    )
+
     if (!template || !session) {
         return (
             <div className="page flex items-center justify-center">
@@ -487,16 +654,74 @@ export default function Session() {
         )
     }
 
+    const isFreestyle = template.id === FREESTYLE_TEMPLATE_ID
+
+    const exercisePicker = (
+        <ExercisePickerModal
+            isOpen={showExercisePicker}
+            onClose={() => setShowExercisePicker(false)}
+            exercises={exercises}
+            onPick={pickExercise}
+        />
+    )
+
+    if (template.exercises.length === 0) {
+        return (
+            <div className="page" style={{ paddingBottom: 'var(--spacing-md)' }}>
+                <header style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    marginBottom: 'var(--spacing-md)'
+                }}>
+                    <div>
+                        <p className="text-muted" style={{ fontSize: '0.7rem' }}>Sesión</p>
+                        <p style={{ fontSize: '1.25rem', fontFamily: 'var(--font-mono)', fontWeight: 600 }}>
+                            <TimerReadout engine={engine} select={(_, now) => seconds(activeDurationMs(session, now))}>
+                            {formatTime}
+                        </TimerReadout>
+                        </p>
+                    </div>
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', color: 'var(--accent-danger)', fontSize: '0.875rem' }}
+                        onClick={cancelWorkout}
+                    >
+                        Cancelar
+                    </button>
+                </header>
+
+                <div className="card text-center" style={{ padding: 'var(--spacing-xl)' }}>
+                    <h2 style={{ fontSize: '1.25rem', marginBottom: 'var(--spacing-xs)' }}>{template.name}</h2>
+                    <p className="text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                        Elige el primer ejercicio para empezar
+                    </p>
+                    <button className="btn-action btn-primary" onClick={() => setShowExercisePicker(true)}>
+                        ➕ Añadir ejercicio
+                    </button>
+                </div>
+
+                {exercisePicker}
+            </div>
+        )
+    }
+
     const currentTemplateEx = template.exercises[currentExerciseIndex]
     const currentExercise = exercises.find(e => e.id === currentTemplateEx?.exerciseId)
+    const currentUnit = exerciseUnit(currentExercise, unitPreference)
     const lastSet = getLastSetData()
-    const targetRestMs = (currentTemplateEx?.restSeconds || 90) * 1000
-    const isRestComplete = elapsedRest >= targetRestMs
+    const lastTimeSet = getLastTimeSet()
+    const currentTarget = getCurrentTarget()
+    const isTimed = isTimedExercise(currentExercise)
+    const holdTargetMs = targetSecondsOf(currentTemplateEx) * 1000
+    const tempo = !isTimed ? currentTemplateEx.tempo : undefined
+    const currentGroup = groupOf(session, currentExerciseIndex)
+    const targetRestSeconds = restAfterSet(session, { exerciseIndex: currentExerciseIndex, setIndex: currentSetIndex })
+    const targetRestMs = targetRestSeconds * 1000
 
     // Determine if we're on the last set of last exercise
-    const isLastSetOfExercise = currentSetIndex + 1 >= currentTemplateEx.sets
-    const isLastExercise = currentExerciseIndex + 1 >= template.exercises.length
-    const isVeryLastSet = isLastSetOfExercise && isLastExercise
+    const isVeryLastSet = nextPosition(session) === null
+    const canEditPlan = timerState === 'IDLE' || timerState === 'TRANSITION' || (timerState === 'REST' && setRegistered)
 
     return (
         <div
@@ -517,16 +742,48 @@ export default function Session() {
                 <div>
                     <p className="text-muted" style={{ fontSize: '0.7rem' }}>Sesión</p>
                     <p style={{ fontSize: '1.25rem', fontFamily: 'var(--font-mono)', fontWeight: 600 }}>
-                        {formatTime(sessionElapsed)}
+                        <TimerReadout engine={engine} select={(_, now) => seconds(activeDurationMs(session, now))}>
+                            {formatTime}
+                        </TimerReadout>
                     </p>
                 </div>
-                <button
-                    className="btn-secondary"
-                    style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', color: 'var(--accent-danger)', fontSize: '0.875rem' }}
-                    onClick={cancelWorkout}
-                >
-                    Cancelar
-                </button>
+                <div className="flex gap-sm">
+                    {canEditPlan && (
+                        <>
+                            <button
+                                className="btn-secondary"
+                                style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.875rem' }}
+                                onClick={() => setShowSetsEditor(true)}
+                            >
+                                📝 Series
+                            </button>
+                            <button
+                                className="btn-secondary"
+                                style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.875rem' }}
+                                onClick={() => setShowPlanEditor(true)}
+                            >
+                                ✏️ Editar
+                            </button>
+                        </>
+                    )}
+                    {timerState !== 'PAUSED' && (
+                        <button
+                            className="btn-secondary"
+                            style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', fontSize: '0.875rem' }}
+                            onClick={pauseSession}
+                            aria-label="Pausar sesión"
+                        >
+                            ⏸️
+                        </button>
+                    )}
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-xs) var(--spacing-sm)', color: 'var(--accent-danger)', fontSize: '0.875rem' }}
+                        onClick={cancelWorkout}
+                    >
+                        Cancelar
+                    </button>
+                </div>
             </header>
 
             {/* Current Exercise */}
@@ -539,7 +796,26 @@ export default function Session() {
                 </h2>
                 <p style={{ color: 'var(--accent-primary)', fontSize: '0.9rem' }}>
                     Serie {currentSetIndex + 1}/{currentTemplateEx.sets}
+                    {plannedSetType(currentTemplateEx.setTypes, currentSetIndex) !== 'working' &&
+                        ` · ${setTypeLabel(plannedSetType(currentTemplateEx.setTypes, currentSetIndex))}`}
+                    {currentTarget && ` · Objetivo: ${formatWeight(currentTarget, currentUnit)} × ${currentTarget.reps}`}
+                    {isTimed && ` · Objetivo: ${formatSeconds(holdTargetMs / 1000)}`}
+                    {!isTimed && currentTemplateEx.tempo && ` · Tempo ${formatTempo(currentTemplateEx.tempo)}`}
                 </p>
+                {!isTimed && currentTemplateEx.setPrescriptions?.[currentSetIndex] && (
+                    <p className="text-secondary" style={{ fontSize: '0.8rem' }}>
+                        {describeSetPrescription(
+                            currentTemplateEx.setPrescriptions[currentSetIndex],
+                            oneRepMaxes[currentTemplateEx.exerciseId] ?? null,
+                            currentUnit
+                        )}
+                    </p>
+                )}
+                {currentGroup && (
+                    <p className="text-muted" style={{ fontSize: '0.75rem' }}>
+                        {GROUP_TYPE_LABELS[currentGroup.type]} · ronda {currentSetIndex + 1}/{groupRounds(session, currentGroup)}
+                    </p>
+                )}
             </div>
 
             {/* Last Set Reference */}
@@ -551,7 +827,7 @@ export default function Session() {
                 }}>
                     <p className="text-muted" style={{ fontSize: '0.65rem' }}>Serie anterior:</p>
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.85rem' }}>
-                        <span>{lastSet.weight}kg × {lastSet.reps} · RPE {lastSet.rpe}</span>
+                        <span>{formatSetResult(lastSet, currentUnit)} · RPE {lastSet.rpe}</span>
                         <span className="text-muted" style={{ fontSize: '0.7rem' }}>
                             TUT: {formatTime(lastSet.tutMs)}
                         </span>
@@ -568,19 +844,68 @@ export default function Session() {
                     </div>
                 )}
 
+                {timerState === 'PAUSED' && (
+                    <div className="text-center">
+                        <p className="timer-label">⏸️ Sesión en pausa</p>
+                        <p className="timer-display" style={{ color: 'var(--text-muted)', fontSize: '3rem' }}>
+                            <TimerReadout engine={engine} select={(timer, now) => seconds(pauseElapsedMs(timer, now))}>
+                                {formatTime}
+                            </TimerReadout>
+                        </p>
+                        <p className="text-muted" style={{ fontSize: '0.75rem' }}>
+                            El tiempo en pausa no cuenta en la sesión ni en la serie
+                        </p>
+                    </div>
+                )}
+
                 {timerState === 'PREPARATION' && (
                     <div className="text-center">
                         <p className="timer-label" style={{ color: 'var(--accent-warning)' }}>¡Prepárate!</p>
-                        <p className="countdown-display" style={{ fontSize: '6rem' }}>{countdown}</p>
+                        <p className="countdown-display" style={{ fontSize: '6rem' }}>
+                            <TimerReadout engine={engine} select={countdownLeft}>{left => left}</TimerReadout>
+                        </p>
                     </div>
                 )}
 
-                {timerState === 'EXECUTION' && (
+                {timerState === 'EXECUTION' && isTimed && (
+                    <TimerReadout engine={engine} select={(timer, now) => seconds(elapsedTutMs(timer, now))}>
+                        {elapsedTut => (
+                            <div className="text-center">
+                                <p className="timer-label" style={{ color: elapsedTut >= holdTargetMs ? 'var(--accent-primary)' : 'var(--accent-warning)' }}>
+                                    {elapsedTut >= holdTargetMs ? '✅ Objetivo cumplido' : '⏱️ Aguanta'}
+                                </p>
+                                <p className="timer-display" style={{
+                                    color: elapsedTut >= holdTargetMs ? 'var(--accent-primary)' : 'var(--accent-warning)',
+                                    fontSize: '4rem'
+                                }}>
+                                    {elapsedTut >= holdTargetMs
+                                        ? `+${formatTime(elapsedTut - holdTargetMs)}`
+                                        : formatTime(holdTargetMs - elapsedTut + 999)}
+                                </p>
+                                <p className="text-muted" style={{ fontSize: '0.75rem' }}>Total: {formatTime(elapsedTut)}</p>
+                            </div>
+                        )}
+                    </TimerReadout>
+                )}
+
+                {timerState === 'EXECUTION' && !isTimed && (
                     <div className="text-center">
                         <p className="timer-label" style={{ color: 'var(--accent-warning)' }}>⏱️ Tiempo bajo tensión</p>
                         <p className="timer-display" style={{ color: 'var(--accent-warning)', fontSize: '4rem' }}>
-                            {formatTime(elapsedTut)}
+                            <TimerReadout engine={engine} select={(timer, now) => seconds(elapsedTutMs(timer, now))}>
+                                {formatTime}
+                            </TimerReadout>
                         </p>
+                        {tempo && (
+                            <p style={{ fontSize: '1.25rem', fontWeight: 600 }}>
+                                <TimerReadout engine={engine} select={(timer, now) => {
+                                    const position = tempoPosition(tempo, elapsedTutMs(timer, now))
+                                    return `Rep ${position.rep} · ${tempoPhaseLabel(position.phase)} ${position.secondsLeft}`
+                                }}>
+                                    {label => label}
+                                </TimerReadout>
+                            </p>
+                        )}
                     </div>
                 )}
 
@@ -596,7 +921,9 @@ export default function Session() {
                             color: isRestComplete ? 'var(--accent-primary)' : 'var(--accent-rest)',
                             fontSize: '4rem'
                         }}>
-                            {formatTime(elapsedRest)}
+                            <TimerReadout engine={engine} select={(timer, now) => seconds(elapsedRestMs(timer, now))}>
+                                {formatTime}
+                            </TimerReadout>
                         </p>
 
                         {/* Rest progress bar */}
@@ -608,12 +935,16 @@ export default function Session() {
                             marginTop: 'var(--spacing-sm)',
                             overflow: 'hidden'
                         }}>
-                            <div style={{
-                                width: `${Math.min(100, (elapsedRest / targetRestMs) * 100)}%`,
-                                height: '100%',
-                                background: isRestComplete ? 'var(--accent-primary)' : 'var(--accent-rest)',
-                                transition: 'width 0.1s linear'
-                            }} />
+                            <TimerReadout engine={engine} select={(timer, now) => Math.min(100, (elapsedRestMs(timer, now) / targetRestMs) * 100)}>
+                                {percent => (
+                                    <div style={{
+                                        width: `${percent}%`,
+                                        height: '100%',
+                                        background: isRestComplete ? 'var(--accent-primary)' : 'var(--accent-rest)',
+                                        transition: 'width 0.1s linear'
+                                    }} />
+                                )}
+                            </TimerReadout>
                         </div>
 
                         <div style={{
@@ -622,8 +953,11 @@ export default function Session() {
                             marginTop: '4px',
                             fontSize: '0.75rem'
                         }}>
-                            <span className="text-muted">TUT: {formatTime(lastTutTime)}</span>
-                            <span className="text-muted">Obj: {currentTemplateEx.restSeconds}s</span>
+                            <span className="text-muted">
+                                TUT: {formatTime(lastTutTime)}
+                                {!isTimed && currentTemplateEx.tempo && ` (${formatTutDeviation(lastTutTime, currentTemplateEx.tempo, reps)} vs tempo)`}
+                            </span>
+                            <span className="text-muted">Obj: {targetRestSeconds}s</span>
                         </div>
                     </div>
                 )}
@@ -635,28 +969,64 @@ export default function Session() {
                     {/* Weight input */}
                     <div style={{ marginBottom: 'var(--spacing-sm)' }}>
                         <label className="text-muted" style={{ fontSize: '0.7rem', display: 'block', marginBottom: '4px' }}>
-                            Peso (kg)
+                            {currentUnit === 'plate' ? 'Placa' : `Peso (${unitShort(currentUnit)})`}
+                            {lastTimeSet && (
+                                <span style={{ float: 'right' }}>
+                                    Última vez: {formatSetResult(lastTimeSet, currentUnit)}
+                                    {lastTimeSet.rpe > 0 && ` @ RPE ${lastTimeSet.rpe}`}
+                                </span>
+                            )}
                         </label>
                         <input
                             type="number"
                             value={weight}
                             onChange={e => setWeight(e.target.value)}
-                            step={2.5}
+                            step={WEIGHT_STEPS[currentUnit]}
                             placeholder="0"
                             style={{ fontSize: '1.25rem', textAlign: 'center', padding: 'var(--spacing-sm)' }}
                         />
                     </div>
 
-                    {/* Reps and RPE side by side */}
+                    {/* Reps (or duration and distance) and RPE side by side */}
                     <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}>
-                        <ScrollPicker
-                            label="Reps"
-                            min={0}
-                            max={30}
-                            step={1}
-                            value={reps}
-                            onChange={setReps}
-                        />
+                        {isTimed ? (
+                            <div style={{ flex: 1 }}>
+                                <label className="text-muted" style={{ fontSize: '0.7rem', display: 'block', marginBottom: '4px' }}>
+                                    Tiempo (s)
+                                </label>
+                                <input
+                                    type="number"
+                                    value={durationSeconds}
+                                    onChange={e => setDurationSeconds(parseInt(e.target.value) || 0)}
+                                    min={0}
+                                    style={{ fontSize: '1.25rem', textAlign: 'center', padding: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}
+                                />
+                                {currentExercise?.tracksDistance && (
+                                    <>
+                                        <label className="text-muted" style={{ fontSize: '0.7rem', display: 'block', marginBottom: '4px' }}>
+                                            Distancia (m)
+                                        </label>
+                                        <input
+                                            type="number"
+                                            value={distance}
+                                            onChange={e => setDistance(e.target.value)}
+                                            min={0}
+                                            placeholder="0"
+                                            style={{ fontSize: '1.25rem', textAlign: 'center', padding: 'var(--spacing-sm)' }}
+                                        />
+                                    </>
+                                )}
+                            </div>
+                        ) : (
+                            <ScrollPicker
+                                label="Reps"
+                                min={0}
+                                max={30}
+                                step={1}
+                                value={reps}
+                                onChange={setReps}
+                            />
+                        )}
                         <ScrollPicker
                             label="RPE"
                             min={5}
@@ -667,6 +1037,17 @@ export default function Session() {
                         />
                     </div>
 
+                    <div style={{ marginBottom: 'var(--spacing-sm)' }}>
+                        <label className="text-muted" style={{ fontSize: '0.7rem', display: 'block', marginBottom: '4px' }}>
+                            Tipo de serie
+                        </label>
+                        <select value={setType} onChange={e => setSetType(e.target.value as SetType)}>
+                            {SET_TYPES.map(t => (
+                                <option key={t.id} value={t.id}>{t.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     <label className="flex items-center gap-sm" style={{ cursor: 'pointer', fontSize: '0.875rem' }}>
                         <input
                             type="checkbox"
@@ -689,13 +1070,28 @@ export default function Session() {
                 }}>
                     <p style={{ color: 'var(--accent-primary)', marginBottom: '4px' }}>✅ Serie registrada</p>
                     <p className="text-muted" style={{ fontSize: '0.8rem' }}>
-                        {typeof weight === 'string' ? parseFloat(weight) || 0 : weight}kg × {reps} reps · RPE {rpe}
+                        {isTimed
+                            ? formatSetResult({
+                                weight: typeof weight === 'string' ? parseFloat(weight) || 0 : weight,
+                                unit: currentUnit,
+                                reps: 0,
+                                durationMs: durationSeconds * 1000,
+                                distanceM: typeof distance === 'string' ? parseFloat(distance) || 0 : distance
+                            })
+                            : `${formatWeight({ weight: typeof weight === 'string' ? parseFloat(weight) || 0 : weight, unit: currentUnit })} × ${reps} reps`}
+                        {' '}· RPE {rpe}
                     </p>
                 </div>
             )}
 
             {/* Action Buttons */}
             <div style={{ marginTop: 'auto', display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                {timerState === 'PAUSED' && (
+                    <button className="btn-action btn-primary" onClick={resumeSession}>
+                        ▶️ Reanudar
+                    </button>
+                )}
+
                 {timerState === 'IDLE' && (
                     <button className="btn-action btn-primary" onClick={startPreparation}>
                         🏋️ Iniciar Serie
@@ -718,6 +1114,7 @@ export default function Session() {
                     <button
                         className="btn-action btn-primary"
                         onClick={registerSet}
+                        disabled={registering}
                     >
                         ✅ Registrar Serie
                     </button>
@@ -749,8 +1146,40 @@ export default function Session() {
                         ➡️ Siguiente Ejercicio
                     </button>
                 )}
+
+                {isFreestyle && canEditPlan && (
+                    <button
+                        className="btn-action btn-secondary"
+                        onClick={() => setShowExercisePicker(true)}
+                    >
+                        ➕ Añadir ejercicio
+                    </button>
+                )}
             </div>
 
+            {exercisePicker}
+
+            <SessionPlanEditor
+                isOpen={showPlanEditor && canEditPlan}
+                onClose={() => setShowPlanEditor(false)}
+                session={session}
+                exercises={exercises}
+                currentExerciseIndex={currentExerciseIndex}
+                onChange={applyPlanChange}
+            />
+
+            <Modal
+                isOpen={showSetsEditor && canEditPlan}
+                onClose={() => setShowSetsEditor(false)}
+                title="📝 Series registradas"
+            >
+                <SessionSetsEditor
+                    session={session}
+                    exercises={exercises}
+                    onChange={updated => applyPlanChange(updated, currentExerciseIndex)}
+                />
+            </Modal>
+
             {/* Summary Modal */}
             <Modal
                 isOpen={showSummaryModal}
@@ -763,7 +1192,7 @@ export default function Session() {
                             <div className="summary-stat">
                                 <span className="summary-stat-label">Duración</span>
                                 <span className="summary-stat-value">
-                                    {Math.round((summaryData.endTime! - summaryData.startTime) / 60000)} min
+                                    {Math.round(activeDurationMs(summaryData) / 60000)} min
                                 </span>
                             </div>
                             <div className="summary-stat">
@@ -773,11 +1202,33 @@ export default function Session() {
                             <div className="summary-stat">
                                 <span className="summary-stat-label">Series</span>
                                 <span className="summary-stat-value">
-                                    {summaryData.exercises.reduce((sum, ex) => sum + ex.sets.length, 0)}
+                                    {filterSessionSets(summaryData, summarySetTypes).exercises.reduce((sum, ex) => sum + ex.sets.length, 0)}
                                 </span>
                             </div>
                         </div>
 
+                        <SetTypeFilter value={summarySetTypes} onChange={setSummarySetTypes} />
+
+                        {nextTargets.length > 0 && (
+                            <div className="card" style={{ marginBottom: 'var(--spacing-md)', background: 'var(--bg-tertiary)' }}>
+                                <p className="text-secondary" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-xs)' }}>
+                                    📈 Próxima sesión
+                                </p>
+                                {nextTargets.map(target => {
+                                    const exercise = exercises.find(e => e.id === target.exerciseId)
+                                    return (
+                                        <div key={target.exerciseId} className="flex justify-between" style={{ fontSize: '0.85rem' }}>
+                                            <span>{exercise?.name || target.exerciseId}</span>
+                                            <span>
+                                                {formatWeight(target, exerciseUnit(exercise, unitPreference))} × {target.reps}
+                                                {target.failures > 0 && <span className="text-muted"> ({target.failures} fallida{target.failures > 1 ? 's' : ''})</span>}
+                                            </span>
+                                        </div>
+                                    )
+                                })}
+                            </div>
+                        )}
+
                         <textarea
                             readOnly
                             value={generateSummaryJSON()}
@@ -787,6 +1238,33 @@ export default function Session() {
                         <button className="btn-action btn-primary" onClick={copyToClipboard}>
                             📋 Copiar JSON
                         </button>
+
+                        {isFreestyle && summaryData.exercises.some(ex => ex.sets.length > 0) && (
+                            <div className="card" style={{ marginTop: 'var(--spacing-sm)', background: 'var(--bg-tertiary)' }}>
+                                {templateSaved ? (
+                                    <p style={{ color: 'var(--accent-primary)', fontSize: '0.875rem' }}>
+                                        ✅ Guardado en la Biblioteca
+                                    </p>
+                                ) : (
+                                    <>
+                                        <input
+                                            type="text"
+                                            placeholder="Nombre del entrenamiento..."
+                                            value={templateName}
+                                            onChange={e => setTemplateName(e.target.value)}
+                                            style={{ marginBottom: 'var(--spacing-sm)' }}
+                                        />
+                                        <button
+                                            className="btn-action btn-secondary"
+                                            onClick={saveAsTemplate}
+                                            disabled={!templateName.trim()}
+                                        >
+                                            💾 Guardar como entrenamiento
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
                         <button
                             className="btn-action btn-secondary"
                             style={{ marginTop: 'var(--spacing-xs)' }}
@@ -1,32 +1,56 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { db, type WorkoutTemplate, type Session } from '../db'
+import { FREESTYLE_TEMPLATE_ID } from '../freestyle'
+import { sessionPath } from '../activeSessions'
+import ActiveSessionsPanel from '../components/ActiveSessionsPanel'
+import Modal from '../components/Modal'
+import UndoToast, { type UndoItem } from '../components/UndoToast'
 
 export default function Training() {
     const navigate = useNavigate()
     const [templates, setTemplates] = useState<WorkoutTemplate[]>([])
-    const [activeSession, setActiveSession] = useState<Session | null>(null)
+    const [activeSessions, setActiveSessions] = useState<Session[]>([])
+    const [loadedAt, setLoadedAt] = useState(0)
+    // Workout the user asked to start while other sessions were still open
+    const [pendingTemplateId, setPendingTemplateId] = useState<string | null>(null)
+    const [undo, setUndo] = useState<UndoItem | null>(null)
+    const closeUndo = useCallback(() => setUndo(null), [])
 
     useEffect(() => {
         loadData()
     }, [])
 
     async function loadData() {
-        const [templatesData, session] = await Promise.all([
+        const [templatesData, sessions] = await Promise.all([
             db.getAllTemplates(),
-            db.getActiveSession()
+            db.getActiveSessions()
         ])
         setTemplates(templatesData)
-        setActiveSession(session || null)
+        setActiveSessions(sessions)
+        setLoadedAt(Date.now())
     }
 
+    // A new workout only starts once no other session is open
     function startWorkout(templateId: string) {
+        if (activeSessions.length > 0) {
+            setPendingTemplateId(templateId)
+            return
+        }
         navigate(`/session/${templateId}`)
     }
 
-    function resumeSession() {
-        if (activeSession) {
-            navigate(`/session/${activeSession.templateId}`)
+    function resumeSession(session: Session) {
+        navigate(sessionPath(session))
+    }
+
+    // After each finish or discard in the prompt: start the pending workout once nothing is open
+    async function handleSessionsChanged() {
+        const sessions = await db.getActiveSessions()
+        setActiveSessions(sessions)
+        setLoadedAt(Date.now())
+        if (pendingTemplateId && sessions.length === 0) {
+            navigate(`/session/${pendingTemplateId}`)
         }
     }
 
@@ -37,16 +61,21 @@ export default function Training() {
                 <p className="text-secondary">Selecciona un entrenamiento</p>
             </header>
 
-            {activeSession && (
-                <div className="card" style={{ marginBottom: 'var(--spacing-lg)', borderColor: 'var(--accent-warning)' }}>
-                    <p style={{ marginBottom: 'var(--spacing-md)', color: 'var(--accent-warning)' }}>
-                        ⚡ Sesión activa: {activeSession.templateName}
-                    </p>
-                    <button className="btn-action btn-primary" onClick={resumeSession}>
-                        Continuar Sesión
-                    </button>
-                </div>
-            )}
+            <ActiveSessionsPanel
+                sessions={activeSessions}
+                now={loadedAt}
+                onResume={resumeSession}
+                onChanged={handleSessionsChanged}
+                onDiscarded={setUndo}
+            />
+
+            <button
+                className="btn-action btn-secondary"
+                style={{ marginBottom: 'var(--spacing-md)' }}
+                onClick={() => startWorkout(FREESTYLE_TEMPLATE_ID)}
+            >
+                ⚡ Entreno libre
+            </button>
 
             {templates.length === 0 ? (
                 <div className="card text-center" style={{ padding: 'var(--spacing-xxl)' }}>
@@ -81,6 +110,25 @@ export default function Training() {
                     ))}
                 </div>
             )}
+
+            <Modal
+                isOpen={pendingTemplateId !== null}
+                onClose={() => setPendingTemplateId(null)}
+                title="Sesión sin terminar"
+            >
+                <p className="text-secondary" style={{ marginBottom: 'var(--spacing-md)' }}>
+                    Antes de empezar otro entrenamiento, continúa, finaliza o descarta lo que tienes abierto.
+                </p>
+                <ActiveSessionsPanel
+                    sessions={activeSessions}
+                    now={loadedAt}
+                    onResume={resumeSession}
+                    onChanged={handleSessionsChanged}
+                    onDiscarded={setUndo}
+                />
+            </Modal>
+
+            <UndoToast item={undo} onClose={closeUndo} onRestored={loadData} />
         </div>
     )
 }
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { db, TRASH_RETENTION_DAYS, type TrashEntry } from '../db'
+import Modal from '../components/Modal'
+import { recomputeProgression, trashedExerciseIds } from '../progressionHistory'
+
+const KIND_LABELS: Record<TrashEntry['kind'], string> = {
+    muscleGroup: 'Grupo muscular',
+    exercise: 'Ejercicio',
+    template: 'Entreno',
+    session: 'Sesión'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export default function Trash() {
+    const navigate = useNavigate()
+    const [entries, setEntries] = useState<TrashEntry[]>([])
+    const [loadedAt, setLoadedAt] = useState(0)
+    const [showEmptyConfirm, setShowEmptyConfirm] = useState(false)
+    const [restoreError, setRestoreError] = useState('')
+
+    function showEntries(trash: TrashEntry[]) {
+        setEntries(trash)
+        setLoadedAt(Date.now())
+    }
+
+    useEffect(() => {
+        db.getTrash().then(showEntries)
+    }, [])
+
+    async function loadData() {
+        showEntries(await db.getTrash())
+    }
+
+    function formatDate(timestamp: number) {
+        return new Date(timestamp).toLocaleDateString('es-ES', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit'
+        })
+    }
+
+    function daysLeft(entry: TrashEntry) {
+        return Math.max(0, Math.ceil((entry.deletedAt + TRASH_RETENTION_DAYS * DAY_MS - loadedAt) / DAY_MS))
+    }
+
+    function describe(entry: TrashEntry) {
+        const changed = new Set(entry.related.map(change => `${change.store}:${change.id}`)).size
+        return changed > 0 ? ` · restaura ${changed} registros relacionados` : ''
+    }
+
+    async function restore(entry: TrashEntry) {
+        setRestoreError('')
+        try {
+            await recomputeProgression(trashedExerciseIds(await db.restoreFromTrash(entry.id)))
+        } catch (e) {
+            setRestoreError(`No se pudo restaurar "${entry.label}": ` + (e instanceof Error ? e.message : String(e)))
+        }
+        await loadData()
+    }
+
+    async function deleteForever(entry: TrashEntry) {
+        await db.deleteFromTrash(entry.id)
+        await loadData()
+    }
+
+    async function emptyTrash() {
+        await db.emptyTrash()
+        setShowEmptyConfirm(false)
+        await loadData()
+    }
+
+    return (
+        <div className="page">
+            <header className="page-header" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <div className="flex items-center gap-sm">
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem' }}
+                        onClick={() => navigate(-1)}
+                    >
+                        ←
+                    </button>
+                    <h1 className="page-title">Papelera</h1>
+                </div>
+                {entries.length > 0 && (
+                    <button
+                        className="btn-secondary"
+                        style={{ padding: 'var(--spacing-sm) var(--spacing-md)', fontSize: '0.875rem', color: 'var(--accent-danger)' }}
+                        onClick={() => setShowEmptyConfirm(true)}
+                    >
+                        Vaciar
+                    </button>
+                )}
+            </header>
+
+            <p className="text-muted" style={{ fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+                Los elementos se eliminan definitivamente a los {TRASH_RETENTION_DAYS} días.
+            </p>
+
+            {restoreError && (
+                <p style={{ color: 'var(--accent-danger)', fontSize: '0.875rem', marginBottom: 'var(--spacing-md)' }}>
+                    {restoreError}
+                </p>
+            )}
+
+            {entries.length === 0 ? (
+                <div className="card text-center" style={{ padding: 'var(--spacing-xxl)' }}>
+                    <p className="text-secondary">La papelera está vacía</p>
+                </div>
+            ) : (
+                <div className="list">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="list-item">
+                            <div className="list-item-content">
+                                <div className="list-item-title">{entry.label}</div>
+                                <div className="list-item-subtitle">
+                                    {KIND_LABELS[entry.kind]} · {formatDate(entry.deletedAt)} · quedan {daysLeft(entry)} días{describe(entry)}
+                                </div>
+                            </div>
+                            <div className="flex gap-sm">
+                                <button
+                                    className="btn-secondary"
+                                    style={{ padding: 'var(--spacing-sm)', fontSize: '0.875rem' }}
+                                    onClick={() => restore(entry)}
+                                >
+                                    ↩️
+                                </button>
+                                <button
+                                    className="btn-secondary"
+                                    style={{ padding: 'var(--spacing-sm)', fontSize: '0.875rem', color: 'var(--accent-danger)' }}
+                                    onClick={() => deleteForever(entry)}
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <Modal
+                isOpen={showEmptyConfirm}
+                onClose={() => setShowEmptyConfirm(false)}
+                title="🗑️ Vaciar papelera"
+            >
+                <div>
+                    <p style={{ marginBottom: 'var(--spacing-md)' }}>
+                        Se eliminarán definitivamente {entries.length} elementos.
+                    </p>
+                    <p className="text-muted" style={{ fontSize: '0.8rem', marginBottom: 'var(--spacing-md)', color: 'var(--accent-danger)' }}>
+                        Esta acción no se puede deshacer.
+                    </p>
+                    <div className="flex gap-sm">
+                        <button
+                            className="btn-action btn-secondary"
+                            onClick={() => setShowEmptyConfirm(false)}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            className="btn-action btn-danger"
+                            onClick={emptyTrash}
+                        >
+                            Vaciar
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        </div>
+    )
+}